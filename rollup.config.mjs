@@ -6,7 +6,8 @@ import typescript from "rollup-plugin-typescript2";
 
 export default {
     input: {
-        main: "./src/index.ts"
+        main: "./src/index.ts",
+        testing: "./src/testing/index.ts"
     },
     output: [
         {
@@ -28,5 +29,5 @@ export default {
             typescript: require("typescript")
         })
     ],
-    external: [...Object.keys(pkg.dependencies)],
+    external: [...Object.keys(pkg.dependencies), ...Object.keys(pkg.peerDependencies)],
 };
\ No newline at end of file
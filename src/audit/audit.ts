@@ -0,0 +1,80 @@
+import {Request, Response} from "express";
+import httpContext from "express-http-context";
+import log from "loglevel";
+import {HttpError} from "../http-error/http-error";
+
+export type AuditOperation = "read" | "write" | "delete" | "fetchAccessGrants";
+
+/**
+ * A record of an access to a pod or the VC service.
+ */
+export interface AuditEvent {
+    timestamp: string;
+    webId?: string;
+    resourceUrl: string;
+    operation: AuditOperation;
+    accessGrantId?: string;
+    correlationId?: string;
+    outcome: "success" | "failure";
+    statusCode?: number;
+}
+
+/**
+ * A destination for audit events, passed as `auditSink` to the middlewares that access pods or the VC service.
+ * Sinks that can be queried make the access log available to the users via `getAuditLog`.
+ */
+export interface AuditSink {
+    record(event: AuditEvent, req: Request, res: Response): Promise<void>;
+    query?(webId: string, options: { since?: Date, limit?: number }): Promise<AuditEvent[]>;
+}
+
+/**
+ * Runs an operation on a pod or the VC service and records its outcome to the audit sink, if any.
+ * The event is recorded in the background: a slow sink doesn't delay the operation, and a failure to record is logged but never fails it.
+ * @param {AuditSink | undefined} auditSink - The audit sink, nothing is recorded without one.
+ * @param {Request} req - The Express request object, containing the access grant in the session.
+ * @param {Response} res - The Express response object, containing the authenticated session.
+ * @param {AuditOperation} operation - The kind of operation.
+ * @param {string} resourceUrl - The URL of the accessed resource.
+ * @param {() => Promise<T>} action - The operation.
+ * @returns {Promise<T>} The result of the operation.
+ */
+export async function audited<T>(auditSink: AuditSink | undefined, req: Request, res: Response, operation: AuditOperation, resourceUrl: string, action: () => Promise<T>): Promise<T> {
+    try {
+        const result = await action();
+        recordAuditEvent(auditSink, req, res, operation, resourceUrl, "success");
+        return result;
+    } catch (error) {
+        recordAuditEvent(auditSink, req, res, operation, resourceUrl, "failure", error instanceof HttpError ? error.statusCode : undefined);
+        throw error;
+    }
+}
+
+function recordAuditEvent(auditSink: AuditSink | undefined, req: Request, res: Response, operation: AuditOperation, resourceUrl: string, outcome: AuditEvent["outcome"], statusCode?: number) {
+    if (!auditSink) {
+        return;
+    }
+
+    const event: AuditEvent = {
+        timestamp: new Date().toISOString(),
+        webId: res.locals.session?.info?.webId,
+        resourceUrl,
+        operation,
+        accessGrantId: getAccessGrantId(req),
+        correlationId: httpContext.get('correlationId'),
+        outcome,
+        statusCode
+    };
+
+    Promise.resolve()
+        .then(() => auditSink.record(event, req, res))
+        .catch(error => log.error(`[audit] Recording the audit event for [${operation}] on [${resourceUrl}] failed.\n${error}`));
+}
+
+function getAccessGrantId(req: Request): string | undefined {
+    try {
+        return req.session?.accessGrant ? JSON.parse(req.session.accessGrant).id : undefined;
+    } catch {
+        return undefined;
+    }
+}
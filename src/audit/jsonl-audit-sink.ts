@@ -0,0 +1,55 @@
+import {appendFile, mkdir} from "node:fs/promises";
+import {createReadStream} from "node:fs";
+import {createInterface} from "node:readline";
+import path from "node:path";
+import {AuditEvent, AuditSink} from "./audit";
+
+/**
+ * Audit sink that appends the events as JSON lines to a file.
+ */
+export class JsonlAuditSink implements AuditSink {
+    private readonly filePath: string;
+
+    /**
+     * Creates an instance of JsonlAuditSink.
+     * @param {string} filePath - The file to append the events to, created with its directory if it doesn't exist.
+     */
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async record(event: AuditEvent): Promise<void> {
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        await appendFile(this.filePath, JSON.stringify(event) + "\n", { mode: 0o600 });
+    }
+
+    /**
+     * Reads the events of a WebID, most recent first.
+     * @param {string} webId - The WebID of the user.
+     * @param {Object} options - Only return events since the given date, and at most `limit` events.
+     * @returns {Promise<AuditEvent[]>} The events.
+     */
+    async query(webId: string, options: { since?: Date, limit?: number }): Promise<AuditEvent[]> {
+        const events: AuditEvent[] = [];
+        try {
+            const lines = createInterface({ input: createReadStream(this.filePath), crlfDelay: Infinity });
+            for await (const line of lines) {
+                if (!line.trim()) {
+                    continue;
+                }
+                const event = JSON.parse(line) as AuditEvent;
+                if (event.webId === webId && (!options.since || new Date(event.timestamp) >= options.since)) {
+                    events.push(event);
+                }
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return [];
+            }
+            throw error;
+        }
+
+        events.reverse();
+        return options.limit !== undefined ? events.slice(0, options.limit) : events;
+    }
+}
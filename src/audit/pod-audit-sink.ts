@@ -0,0 +1,71 @@
+import {Request, Response} from "express";
+import {Writer, DataFactory, Quad} from "n3";
+import {AuditEvent, AuditSink} from "./audit";
+import {getAccessGrantFetch, podResponseToHttpError} from "../helper/resource-helper";
+
+const { namedNode, literal, quad } = DataFactory;
+
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const PROV = "http://www.w3.org/ns/prov#";
+const DCTERMS = "http://purl.org/dc/terms/";
+const XSD_DATETIME = "http://www.w3.org/2001/XMLSchema#dateTime";
+
+/**
+ * Audit sink that writes each event as an RDF resource into a designated container in the user's own pod, so the user keeps
+ * the record of who accessed their data. Events are described as `prov:Activity`, associated with the WebID, using the
+ * resource, and with the access grant as plan. The access grant in the session must cover the audit container.
+ */
+export class PodAuditSink implements AuditSink {
+    private readonly auditContainerUrl: (event: AuditEvent, req: Request, res: Response) => string | undefined;
+    private readonly fetch?: typeof fetch;
+
+    /**
+     * Creates an instance of PodAuditSink.
+     * @param {Object} options - The function resolving the audit container for an event (nothing is written if it returns undefined) and optionally the requestor's authenticated fetch.
+     */
+    constructor(options: { auditContainerUrl: (event: AuditEvent, req: Request, res: Response) => string | undefined, fetch?: typeof fetch }) {
+        this.auditContainerUrl = options.auditContainerUrl;
+        this.fetch = options.fetch;
+    }
+
+    async record(event: AuditEvent, req: Request, res: Response): Promise<void> {
+        const containerUrl = this.auditContainerUrl(event, req, res);
+        if (!containerUrl || !req.session?.accessGrant) {
+            return;
+        }
+
+        const url = new URL(containerUrl);
+        const podFetch = await getAccessGrantFetch(url, req, res, this.fetch);
+        const response = await podFetch(url.href, {
+            method: "POST",
+            headers: { "Content-Type": "text/turtle" },
+            body: eventAsTurtle(event)
+        });
+        if (!response.ok) {
+            throw podResponseToHttpError(response, "Writing the audit event");
+        }
+    }
+}
+
+function eventAsTurtle(event: AuditEvent): string {
+    // The relative IRI resolves against the URL of the created resource.
+    const activity = namedNode("#event");
+    const quads: Quad[] = [
+        quad(activity, namedNode(RDF_TYPE), namedNode(`${PROV}Activity`)),
+        quad(activity, namedNode(`${PROV}used`), namedNode(event.resourceUrl)),
+        quad(activity, namedNode(`${PROV}startedAtTime`), literal(event.timestamp, namedNode(XSD_DATETIME))),
+        quad(activity, namedNode(`${DCTERMS}type`), literal(event.operation)),
+        quad(activity, namedNode(`${DCTERMS}description`), literal(event.outcome))
+    ];
+    if (event.webId) {
+        quads.push(quad(activity, namedNode(`${PROV}wasAssociatedWith`), namedNode(event.webId)));
+    }
+    if (event.accessGrantId) {
+        quads.push(quad(activity, namedNode(`${PROV}hadPlan`), namedNode(event.accessGrantId)));
+    }
+    if (event.correlationId) {
+        quads.push(quad(activity, namedNode(`${DCTERMS}identifier`), literal(event.correlationId)));
+    }
+
+    return new Writer({ format: "Turtle" }).quadsToString(quads);
+}
@@ -0,0 +1,110 @@
+import {HttpError} from "../http-error/http-error";
+
+export type AccessMode = "Read" | "Write" | "Append";
+
+/**
+ * The scope of an access grant, as read from its JSON-LD representation stored in the session.
+ */
+export interface AccessGrantScope {
+    id?: string;
+    issuer?: string;
+    resources: string[];
+    modes: AccessMode[];
+    purposes: string[];
+    inherit: boolean;
+    expirationDate?: Date;
+}
+
+/**
+ * Reads the scope of a serialised access grant.
+ * Both the full IRIs (e.g. `http://www.w3.org/ns/auth/acl#Read`) and the compacted names of access modes are supported.
+ * @param {string} serialisedAccessGrant - The access grant as stored in `req.session.accessGrant`.
+ * @returns {AccessGrantScope} The scope of the access grant.
+ * @throws {HttpError} Throws a 403 error if the access grant can't be parsed.
+ */
+export function parseAccessGrantScope(serialisedAccessGrant: string): AccessGrantScope {
+    let accessGrant;
+    try {
+        accessGrant = JSON.parse(serialisedAccessGrant);
+    } catch {
+        throw new HttpError("The access grant in the session can't be parsed.", 403, { code: "ACCESS_GRANT_INVALID" });
+    }
+
+    const consent = accessGrant?.credentialSubject?.providedConsent;
+    if (!consent) {
+        throw new HttpError("The access grant in the session doesn't contain a provided consent.", 403, { code: "ACCESS_GRANT_INVALID" });
+    }
+
+    return {
+        id: accessGrant.id,
+        issuer: typeof accessGrant.issuer === "object" ? accessGrant.issuer?.id : accessGrant.issuer,
+        resources: asArray(consent.forPersonalData),
+        modes: asArray(consent.mode)
+            .map(mode => mode.split(/[#:]/).pop())
+            .filter((mode): mode is AccessMode => mode === "Read" || mode === "Write" || mode === "Append"),
+        purposes: asArray(consent.forPurpose),
+        inherit: consent.inherit !== false && consent.inherit !== "false",
+        expirationDate: accessGrant.expirationDate ? new Date(accessGrant.expirationDate) : undefined
+    };
+}
+
+/**
+ * Checks whether a resource is covered by the resources of an access grant.
+ * A resource is covered if it is granted itself, or if it is contained in a granted container and the grant is inherited.
+ * Granted resources that aren't absolute URLs don't cover any resource, see `getInvalidGrantedResources`.
+ * @param {AccessGrantScope} scope - The scope of the access grant.
+ * @param {string} resourceUrl - The absolute URL of the resource that will be accessed.
+ * @returns {boolean} True if the resource is covered.
+ */
+export function isResourceInScope(scope: AccessGrantScope, resourceUrl: string): boolean {
+    const resource = new URL(resourceUrl).href;
+    return scope.resources.some(grantedResourceUrl => {
+        const grantedResource = parseUrl(grantedResourceUrl)?.href;
+        return grantedResource !== undefined && (resource === grantedResource ||
+            (scope.inherit && grantedResource.endsWith("/") && resource.startsWith(grantedResource)));
+    });
+}
+
+/**
+ * Lists the resources of an access grant that aren't absolute URLs, such as relative or malformed ones.
+ * @param {AccessGrantScope} scope - The scope of the access grant.
+ * @returns {string[]} The invalid granted resources.
+ */
+export function getInvalidGrantedResources(scope: AccessGrantScope): string[] {
+    return scope.resources.filter(grantedResourceUrl => !parseUrl(grantedResourceUrl));
+}
+
+/**
+ * Determines the access mode required for an HTTP method. Append suffices to create resources with POST.
+ * @param {string} method - The HTTP method of the request.
+ * @returns {AccessMode[]} The access modes of which at least one is required.
+ */
+export function getRequiredAccessModes(method: string): AccessMode[] {
+    switch (method.toUpperCase()) {
+        case "GET":
+        case "HEAD":
+        case "OPTIONS":
+            return ["Read"];
+        case "POST":
+            return ["Write", "Append"];
+        default:
+            return ["Write"];
+    }
+}
+
+function asArray(value: unknown): string[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    return (Array.isArray(value) ? value : [value])
+        .map(item => typeof item === "object" ? item?.id ?? item?.["@id"] : item)
+        .filter((item): item is string => typeof item === "string");
+}
+
+function parseUrl(url: string): URL | undefined {
+    try {
+        return new URL(url);
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * A bounded in-memory cache that evicts the least recently used entry when full, and expires entries after a TTL.
+ * Optionally, the total size of the entries is bounded as well, as measured by `sizeOf`.
+ */
+export class LruCache<K, V> {
+    private readonly entries = new Map<K, { value: V, expiresAt: number, size: number }>();
+    private readonly maxEntries: number;
+    private readonly ttlMs: number;
+    private readonly maxSize: number;
+    private readonly sizeOf: (value: V) => number;
+    private totalSize = 0;
+
+    /**
+     * Creates an instance of LruCache.
+     * @param {Object} options - The maximum number of entries, their time to live in ms and optionally their maximum total size and how to measure it.
+     */
+    constructor(options: { maxEntries: number, ttlMs: number, maxSize?: number, sizeOf?: (value: V) => number }) {
+        this.maxEntries = options.maxEntries;
+        this.ttlMs = options.ttlMs;
+        this.maxSize = options.maxSize ?? Infinity;
+        this.sizeOf = options.sizeOf ?? (() => 0);
+    }
+
+    get(key: K): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) {
+            this.totalSize -= entry.size;
+            return undefined;
+        }
+        // Re-insert the entry, so the map stays ordered from least to most recently used.
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: K, value: V, ttlMs: number = this.ttlMs) {
+        this.delete(key);
+        const size = this.sizeOf(value);
+        if (size > this.maxSize) {
+            return;
+        }
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, size });
+        this.totalSize += size;
+        while (this.entries.size > this.maxEntries || this.totalSize > this.maxSize) {
+            this.delete(this.entries.keys().next().value as K);
+        }
+    }
+
+    delete(key: K) {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.totalSize -= entry.size;
+        }
+    }
+
+    clear() {
+        this.entries.clear();
+        this.totalSize = 0;
+    }
+
+    keys(): K[] {
+        return [...this.entries.keys()];
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
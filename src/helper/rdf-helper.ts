@@ -0,0 +1,207 @@
+import {fromRdfJsDataset, getJsonLdParser, SolidDataset, toRdfJsDataset} from "@inrupt/solid-client";
+import {Parser, Quad, Store, Writer} from "n3";
+import {HttpError} from "../http-error/http-error";
+
+/**
+ * The RDF media types that can be parsed from request bodies and serialised in responses, mapped to their n3 format.
+ * JSON-LD is not supported by n3 and is handled separately.
+ */
+export const RDF_MEDIA_TYPES: Record<string, string> = {
+    "text/turtle": "Turtle",
+    "application/n-triples": "N-Triples",
+    "application/n-quads": "N-Quads",
+    "application/trig": "TriG",
+    "application/ld+json": "JSON-LD"
+};
+
+/**
+ * Extracts the media type from a Content-Type header, without parameters such as the charset.
+ * @param {string} contentType - The Content-Type header value.
+ * @returns {string} The lower-cased media type.
+ */
+export function getMediaType(contentType: string): string {
+    return contentType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Converts a request body, as left by any of the ExpressJS body parsers, to a string.
+ * @param {unknown} body - The request body.
+ * @returns {string} The body as a string.
+ */
+export function bodyAsString(body: unknown): string {
+    if (body === undefined || body === null) {
+        return "";
+    }
+    if (typeof body === "string") {
+        return body;
+    }
+    if (Buffer.isBuffer(body)) {
+        return body.toString("utf-8");
+    }
+    return JSON.stringify(body);
+}
+
+/**
+ * Checks whether a request body, as left by any of the ExpressJS body parsers, is missing or empty.
+ * A body that no parser handled is undefined, and `express.json()` leaves an empty object for an empty body.
+ * @param {unknown} body - The request body.
+ * @returns {boolean} True if the body is missing or empty.
+ */
+export function isEmptyBody(body: unknown): boolean {
+    if (typeof body === "object" && body !== null && !Buffer.isBuffer(body)) {
+        return Object.keys(body).length === 0;
+    }
+    return bodyAsString(body).trim().length === 0;
+}
+
+/**
+ * Parses an RDF document in one of the supported media types to a SolidDataset.
+ * @param {string} source - The RDF document.
+ * @param {string} contentType - The Content-Type of the document.
+ * @param {string} baseIri - The IRI against which relative IRIs are resolved.
+ * @returns {Promise<SolidDataset>} The parsed SolidDataset.
+ * @throws {HttpError} Throws a 415 error if the media type is not supported, and a 400 error if the document can't be parsed.
+ */
+export async function parseRdf(source: string, contentType: string, baseIri: string): Promise<SolidDataset> {
+    const mediaType = getMediaType(contentType);
+    const format = RDF_MEDIA_TYPES[mediaType];
+    if (!format) {
+        throw new HttpError(
+            `Unsupported media type [${mediaType}], supported are [${Object.keys(RDF_MEDIA_TYPES).join(", ")}].`,
+            415
+        );
+    }
+
+    try {
+        const store = new Store();
+        if (format === "JSON-LD") {
+            await parseJsonLd(source, baseIri, store);
+        } else {
+            store.addQuads(new Parser({format, baseIRI: baseIri}).parse(source));
+        }
+        return fromRdfJsDataset(store);
+    } catch (error) {
+        throw new HttpError(`Request body is not valid [${mediaType}]: ${(error as Error).message}`, 400);
+    }
+}
+
+/**
+ * Serialises a SolidDataset to one of the supported media types.
+ * @param {SolidDataset} solidDataset - The SolidDataset to serialise.
+ * @param {string} mediaType - The media type to serialise to.
+ * @returns {Promise<string>} The serialised document.
+ * @throws {HttpError} Throws a 406 error if the media type is not supported.
+ */
+export async function serialiseRdf(solidDataset: SolidDataset, mediaType: string): Promise<string> {
+    const format = RDF_MEDIA_TYPES[getMediaType(mediaType)];
+    if (!format) {
+        throw new HttpError(
+            `Not acceptable media type [${mediaType}], supported are [${Object.keys(RDF_MEDIA_TYPES).join(", ")}].`,
+            406
+        );
+    }
+
+    const quads = [...toRdfJsDataset(solidDataset)] as Quad[];
+    if (format === "JSON-LD") {
+        return JSON.stringify(quadsAsJsonLd(quads));
+    }
+
+    return new Promise((resolve, reject) => {
+        const writer = new Writer({format});
+        writer.addQuads(quads);
+        writer.end((error, result) => error ? reject(error) : resolve(result));
+    });
+}
+
+async function parseJsonLd(source: string, baseIri: string, store: Store) {
+    const parser = getJsonLdParser();
+    await new Promise<void>((resolve, reject) => {
+        parser.onQuad(quad => store.add(quad as Quad));
+        parser.onError(reject);
+        parser.onComplete(resolve);
+        parser.parse(source, {internal_resourceInfo: {sourceIri: baseIri, isRawData: false, linkedResources: {}}});
+    });
+}
+
+/**
+ * Computes the triples that have to be deleted from and inserted into a SolidDataset to obtain another one.
+ * Graph names are ignored, as resources in a pod only contain triples.
+ * @param {SolidDataset} currentDataset - The SolidDataset as it is currently stored.
+ * @param {SolidDataset} newDataset - The SolidDataset as it should be stored.
+ * @returns {{deletions: Quad[], insertions: Quad[]}} The triples to delete and to insert.
+ */
+export function diffSolidDatasets(currentDataset: SolidDataset, newDataset: SolidDataset): { deletions: Quad[], insertions: Quad[] } {
+    const writer = new Writer({format: "N-Triples"});
+    const tripleKey = (quad: Quad) => writer.quadToString(quad.subject, quad.predicate, quad.object);
+
+    const currentTriples = new Map(([...toRdfJsDataset(currentDataset)] as Quad[]).map(quad => [tripleKey(quad), quad]));
+    const newTriples = new Map(([...toRdfJsDataset(newDataset)] as Quad[]).map(quad => [tripleKey(quad), quad]));
+
+    return {
+        deletions: [...currentTriples].filter(([key]) => !newTriples.has(key)).map(([, quad]) => quad),
+        insertions: [...newTriples].filter(([key]) => !currentTriples.has(key)).map(([, quad]) => quad)
+    };
+}
+
+/**
+ * Creates an N3 Patch document, as defined by the Solid Protocol, that deletes and inserts the given triples.
+ * @param {Quad[]} deletions - The triples to delete, these must not contain blank nodes.
+ * @param {Quad[]} insertions - The triples to insert.
+ * @returns {string} The N3 Patch document.
+ */
+export function createN3Patch(deletions: Quad[], insertions: Quad[]): string {
+    const writer = new Writer({format: "N-Triples"});
+    const formula = (quads: Quad[]) =>
+        quads.map(quad => writer.quadToString(quad.subject, quad.predicate, quad.object)).join("");
+
+    return "@prefix solid: <http://www.w3.org/ns/solid/terms#>.\n" +
+        "_:patch a solid:InsertDeletePatch;\n" +
+        `  solid:deletes {\n${formula(deletions)}  };\n` +
+        `  solid:inserts {\n${formula(insertions)}  }.\n`;
+}
+
+/**
+ * Checks whether any of the quads contains a blank node, which can't be targeted by an N3 Patch deletion.
+ * @param {Quad[]} quads - The quads to check.
+ * @returns {boolean} True if a blank node is found.
+ */
+export function containsBlankNode(quads: Quad[]): boolean {
+    return quads.some(quad => quad.subject.termType === "BlankNode" || quad.object.termType === "BlankNode");
+}
+
+/**
+ * Writes quads as expanded, flattened JSON-LD, with one node object per subject and graph.
+ */
+function quadsAsJsonLd(quads: Quad[]) {
+    const termAsJsonLd = (term: Quad["subject"] | Quad["object"]) =>
+        term.termType === "BlankNode" ? `_:${term.value}` : term.value;
+
+    const graphs = new Map<string, Map<string, Record<string, unknown[] | string>>>();
+    for (const quad of quads) {
+        const graphId = quad.graph.termType === "DefaultGraph" ? "" : termAsJsonLd(quad.graph as Quad["subject"]);
+        const nodes = graphs.get(graphId) ?? new Map<string, Record<string, unknown[] | string>>();
+        graphs.set(graphId, nodes);
+
+        const subjectId = termAsJsonLd(quad.subject);
+        const node = nodes.get(subjectId) ?? {"@id": subjectId};
+        nodes.set(subjectId, node);
+
+        if (quad.predicate.value === "http://www.w3.org/1999/02/22-rdf-syntax-ns#type" && quad.object.termType !== "Literal") {
+            node["@type"] = [...(node["@type"] as string[] ?? []), termAsJsonLd(quad.object)];
+            continue;
+        }
+
+        const value = quad.object.termType === "Literal"
+            ? quad.object.language
+                ? {"@value": quad.object.value, "@language": quad.object.language}
+                : {"@value": quad.object.value, "@type": quad.object.datatype.value}
+            : {"@id": termAsJsonLd(quad.object)};
+        node[quad.predicate.value] = [...(node[quad.predicate.value] as unknown[] ?? []), value];
+    }
+
+    const defaultGraph = [...(graphs.get("")?.values() ?? [])];
+    const namedGraphs = [...graphs.entries()]
+        .filter(([graphId]) => graphId !== "")
+        .map(([graphId, nodes]) => ({"@id": graphId, "@graph": [...nodes.values()]}));
+    return [...defaultGraph, ...namedGraphs];
+}
@@ -0,0 +1,268 @@
+import log from "loglevel";
+import {HttpError} from "../http-error/http-error";
+
+export type ResilientOperation = "read" | "write" | "delete" | "fetchAccessGrants" | "getPods";
+
+/**
+ * The timeout and number of retries of an operation.
+ */
+export interface OperationPolicy {
+    timeoutMs?: number; // The time an attempt may take, 30s by default.
+    retries?: number; // The number of retries after a transient failure, 2 for idempotent operations and 0 for writes and deletes by default.
+}
+
+/**
+ * Whether a call can be repeated, which determines whether it is retried.
+ */
+export interface ResilientCallOptions {
+    replayable?: boolean; // Whether the call can be made again, false for e.g. a streamed request body, true by default.
+}
+
+/**
+ * Options of the `ResiliencePolicy`.
+ */
+export interface ResiliencePolicyOptions extends OperationPolicy {
+    operations?: Partial<Record<ResilientOperation, OperationPolicy>>; // Overrides the timeout and retries per operation.
+    retryBaseDelayMs?: number; // The base of the exponential backoff between retries, 200ms by default.
+    retryMaxDelayMs?: number; // The maximum backoff between retries, 5s by default.
+    failureThreshold?: number; // The number of consecutive failures after which the circuit of an upstream opens, 5 by default.
+    resetTimeoutMs?: number; // The time an open circuit rejects calls before letting a trial call through, 30s by default.
+}
+
+// A write or delete that timed out may still be carried out by the pod, possibly after a retry or a later write, so they aren't retried.
+const IDEMPOTENT_OPERATIONS: ResilientOperation[] = ["read", "fetchAccessGrants", "getPods"];
+
+/**
+ * The state of the circuit breaker of one upstream.
+ */
+interface Circuit {
+    failures: number;
+    openedAt?: number;
+    trialInProgress: boolean;
+}
+
+/**
+ * Guards the calls to the pods and the VC service with timeouts, retries and a circuit breaker per upstream.
+ * Each attempt is limited by the timeout of the operation, after which its signal aborts; a call that doesn't pass the signal
+ * on keeps running, but its outcome is ignored. Transient failures (timeouts, network errors, 429 and 5xx responses) of idempotent
+ * operations are retried with exponential backoff and full jitter, if the call can be made again. After `failureThreshold` consecutive transient
+ * failures of an upstream, i.e. a pod origin or the VC service, its circuit opens and calls fail fast, until a trial call after
+ * `resetTimeoutMs` succeeds. Upstream failures are mapped to a 504 for timeouts, a 503 for an unavailable upstream or open
+ * circuit, and a 502 otherwise; other errors, such as a 404 of the pod, are passed on unchanged.
+ */
+export class ResiliencePolicy {
+    private readonly circuits = new Map<string, Circuit>();
+    private readonly options: ResiliencePolicyOptions;
+
+    /**
+     * Creates an instance of ResiliencePolicy.
+     * @param {ResiliencePolicyOptions} [options] - The timeouts and retries, the backoff and the circuit breaker thresholds.
+     */
+    constructor(options: ResiliencePolicyOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Runs an operation on an upstream with the timeout, retries and circuit breaker of the policy.
+     * @param {ResilientOperation} operation - The kind of operation, which determines its timeout and retries.
+     * @param {string} upstream - The URL of the accessed resource, of which the origin identifies the circuit, or the name of a service.
+     * @param {(signal: AbortSignal) => Promise<T>} call - The call, aborted by the signal when it times out if it supports that.
+     * @param {ResilientCallOptions} [callOptions] - Whether the call can be repeated.
+     * @returns {Promise<T>} The result of the call.
+     * @throws {HttpError} Throws a 503 error if the circuit is open, and a 502, 503 or 504 error if the upstream keeps failing.
+     */
+    async execute<T>(operation: ResilientOperation, upstream: string, call: (signal: AbortSignal) => Promise<T>, callOptions: ResilientCallOptions = {}): Promise<T> {
+        const circuitKey = toCircuitKey(upstream);
+        const timeoutMs = this.options.operations?.[operation]?.timeoutMs ?? this.options.timeoutMs ?? 30000;
+        const retries = callOptions.replayable ?? true
+            ? this.options.operations?.[operation]?.retries ?? this.options.retries ?? (IDEMPOTENT_OPERATIONS.includes(operation) ? 2 : 0)
+            : 0;
+
+        for (let attempt = 0; ; attempt++) {
+            const trial = this.acquire(circuitKey, operation);
+            try {
+                const result = await withTimeout(call, timeoutMs, operation, upstream);
+                this.recordSuccess(circuitKey);
+                return result;
+            } catch (error) {
+                if (!isTransientFailure(error)) {
+                    this.release(circuitKey, trial);
+                    throw error;
+                }
+
+                this.recordFailure(circuitKey, trial);
+                if (attempt >= retries || this.isOpen(circuitKey)) {
+                    throw toUpstreamHttpError(error, operation, upstream);
+                }
+
+                const delayMs = this.getBackoff(attempt);
+                log.debug(`[ResiliencePolicy] Retrying [${operation}] on [${upstream}] in [${delayMs}] ms after: ${error}`);
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+        }
+    }
+
+    /**
+     * Closes all circuits, e.g. in tests or after the upstreams were known to recover.
+     */
+    reset() {
+        this.circuits.clear();
+    }
+
+    /**
+     * Lets a call through the circuit of an upstream, as trial call if its reset timeout has passed.
+     * @returns {boolean} True if the call is the trial call of a half-open circuit.
+     */
+    private acquire(circuitKey: string, operation: ResilientOperation): boolean {
+        const circuit = this.circuits.get(circuitKey);
+        if (circuit?.openedAt === undefined) {
+            return false;
+        }
+
+        const resetTimeoutMs = this.options.resetTimeoutMs ?? 30000;
+        const retryAfterMs = circuit.openedAt + resetTimeoutMs - Date.now();
+        if (retryAfterMs > 0 || circuit.trialInProgress) {
+            throw new HttpError(
+                `[ResiliencePolicy] The circuit of [${circuitKey}] is open, [${operation}] is not attempted.`,
+                503,
+                {
+                    code: "UPSTREAM_CIRCUIT_OPEN",
+                    detail: "An upstream service is temporarily unavailable.",
+                    extensions: { retryAfter: Math.ceil(Math.max(retryAfterMs, 0) / 1000) }
+                }
+            );
+        }
+        circuit.trialInProgress = true;
+        return true;
+    }
+
+    private release(circuitKey: string, trial: boolean) {
+        const circuit = this.circuits.get(circuitKey);
+        if (circuit && trial) {
+            circuit.trialInProgress = false;
+        }
+    }
+
+    private recordSuccess(circuitKey: string) {
+        this.circuits.delete(circuitKey);
+    }
+
+    private recordFailure(circuitKey: string, trial: boolean) {
+        const circuit = this.circuits.get(circuitKey) ?? { failures: 0, trialInProgress: false };
+        circuit.failures++;
+        if (trial) {
+            circuit.trialInProgress = false;
+        }
+        if (trial || circuit.failures >= (this.options.failureThreshold ?? 5)) {
+            if (circuit.openedAt === undefined || trial) {
+                log.warn(`[ResiliencePolicy] Opening the circuit of [${circuitKey}] after [${circuit.failures}] consecutive failures.`);
+            }
+            circuit.openedAt = Date.now();
+        }
+        this.circuits.set(circuitKey, circuit);
+    }
+
+    private isOpen(circuitKey: string): boolean {
+        return this.circuits.get(circuitKey)?.openedAt !== undefined;
+    }
+
+    private getBackoff(attempt: number): number {
+        const maxDelayMs = Math.min(this.options.retryMaxDelayMs ?? 5000, (this.options.retryBaseDelayMs ?? 200) * 2 ** attempt);
+        return Math.round(Math.random() * maxDelayMs);
+    }
+}
+
+/**
+ * Runs a call with the resilience policy of a middleware, or as is if the middleware has none.
+ * @param {ResiliencePolicy | undefined} policy - The resilience policy of the middleware.
+ * @param {ResilientOperation} operation - The kind of operation.
+ * @param {string} upstream - The URL of the accessed resource, or the name of a service.
+ * @param {(signal?: AbortSignal) => Promise<T>} call - The call.
+ * @param {ResilientCallOptions} [callOptions] - Whether the call can be repeated.
+ * @returns {Promise<T>} The result of the call.
+ */
+export function withResilience<T>(policy: ResiliencePolicy | undefined, operation: ResilientOperation, upstream: string, call: (signal?: AbortSignal) => Promise<T>, callOptions?: ResilientCallOptions): Promise<T> {
+    return policy ? policy.execute(operation, upstream, call, callOptions) : call();
+}
+
+/**
+ * The error of an attempt that didn't finish within its timeout.
+ */
+class TimeoutError extends Error {
+}
+
+async function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, operation: ResilientOperation, upstream: string): Promise<T> {
+    const controller = new AbortController();
+    let timeout: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => {
+            const error = new TimeoutError(`[${operation}] on [${upstream}] didn't finish within [${timeoutMs}] ms.`);
+            controller.abort(error);
+            reject(error);
+        }, timeoutMs);
+    });
+
+    const attempt = call(controller.signal);
+    // Calls that don't support aborting keep running after a timeout, their outcome is ignored.
+    attempt.catch(() => undefined);
+    try {
+        return await Promise.race([attempt, timedOut]);
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+function toCircuitKey(upstream: string): string {
+    try {
+        return new URL(upstream).origin;
+    } catch {
+        return upstream;
+    }
+}
+
+/**
+ * Reads the HTTP status of an error of the pod or VC service, as set by `HttpError`, the Inrupt libraries or fetch wrappers.
+ */
+function getStatus(error: unknown): number | undefined {
+    if (error instanceof HttpError) {
+        return error.statusCode;
+    }
+    const candidate = error as { statusCode?: unknown, status?: unknown, response?: { status?: unknown } } | undefined;
+    const status = candidate?.statusCode ?? candidate?.status ?? candidate?.response?.status;
+    return typeof status === "number" ? status : undefined;
+}
+
+function isTransientFailure(error: unknown): boolean {
+    if (error instanceof TimeoutError) {
+        return true;
+    }
+    const status = getStatus(error);
+    if (status !== undefined) {
+        return status === 429 || status >= 500;
+    }
+    // Failing fetches, e.g. on a refused connection or a DNS failure, reject with a TypeError without status.
+    return error instanceof TypeError;
+}
+
+function toUpstreamHttpError(error: unknown, operation: ResilientOperation, upstream: string): HttpError {
+    if (error instanceof TimeoutError) {
+        const detail = IDEMPOTENT_OPERATIONS.includes(operation)
+            ? "An upstream service didn't respond in time."
+            : "An upstream service didn't respond in time, the change may still be carried out.";
+        return new HttpError(`[ResiliencePolicy] ${error.message}`, 504, { code: "UPSTREAM_TIMEOUT", detail, cause: error });
+    }
+
+    const status = getStatus(error);
+    if (status === 503 || status === 429) {
+        return new HttpError(
+            `[ResiliencePolicy] [${operation}] on [${upstream}] failed, the upstream is unavailable with status [${status}].`,
+            503,
+            { code: "UPSTREAM_UNAVAILABLE", detail: "An upstream service is temporarily unavailable.", cause: error }
+        );
+    }
+    return new HttpError(
+        `[ResiliencePolicy] [${operation}] on [${upstream}] failed${status ? ` with status [${status}]` : ""}: ${error}`,
+        502,
+        { code: "UPSTREAM_ERROR", detail: "An upstream service failed to handle the request.", cause: error }
+    );
+}
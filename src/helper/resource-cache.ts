@@ -0,0 +1,117 @@
+import {SolidDataset} from "@inrupt/solid-client";
+import {LruCache} from "./lru-cache";
+import {podResponseToHttpError} from "./resource-helper";
+
+/**
+ * A resource as cached by the `ResourceCache`, together with its validators.
+ */
+export interface CachedResource {
+    solidDataset?: SolidDataset;
+    file?: Blob;
+    etag?: string;
+    lastModified?: string;
+    size: number; // The approximate size of the resource in memory in bytes.
+    validatedAt: number; // The timestamp on which the pod last confirmed the resource.
+}
+
+/**
+ * A per-user cache of the resources and files read from the pods, keyed by WebID and resource URL.
+ * Cached resources are revalidated against the pod with a conditional `HEAD` request (`If-None-Match` or `If-Modified-Since`),
+ * so unchanged resources aren't transferred and parsed again; changed or uncached resources are read with the given loader, e.g.
+ * the `PodService`. Only resources with an ETag or Last-Modified date are cached. The memory footprint is bounded by the number
+ * of entries and the total size of the cached resources.
+ */
+export class ResourceCache {
+    private readonly cache: LruCache<string, CachedResource>;
+    private readonly maxAgeMs: number;
+
+    /**
+     * Creates an instance of ResourceCache.
+     * @param {Object} [options] - The maximum number of entries (default 1000), their maximum total size in bytes (default 50MB),
+     * the time in ms after which unused entries are dropped (default 1 hour), and the time in ms during which an entry is used
+     * without revalidating it against the pod (default 0, always revalidate).
+     */
+    constructor(options: { maxEntries?: number, maxBytes?: number, ttlMs?: number, maxAgeMs?: number } = {}) {
+        this.cache = new LruCache<string, CachedResource>({
+            maxEntries: options.maxEntries ?? 1000,
+            ttlMs: options.ttlMs ?? 60 * 60 * 1000,
+            maxSize: options.maxBytes ?? 50 * 1024 * 1024,
+            sizeOf: resource => resource.size
+        });
+        this.maxAgeMs = options.maxAgeMs ?? 0;
+    }
+
+    /**
+     * Reads a resource from the cache, revalidating it against the pod, or with the loader if it isn't cached or has changed.
+     * The validators are requested before the resource is loaded, so they never describe a newer version than the cached one.
+     * @param {string} webId - The WebID of the user on whose behalf the resource is read.
+     * @param {string} url - The URL of the resource.
+     * @param {"dataset" | "file"} kind - Whether the resource is read as SolidDataset or as file.
+     * @param {typeof fetch} podFetch - The fetch function authorised to request the validators of the resource.
+     * @param {() => Promise<SolidDataset | Blob>} load - Reads the resource, as SolidDataset or as file according to `kind`.
+     * @returns {Promise<CachedResource>} The resource and its validators.
+     * @throws {HttpError} Throws an error with the status of the pod if the resource can't be read.
+     */
+    async fetch(webId: string, url: string, kind: "dataset" | "file", podFetch: typeof fetch, load: () => Promise<SolidDataset | Blob>): Promise<CachedResource> {
+        const key = `${webId} ${url}`;
+        const cached = this.cache.get(key);
+        if (cached && Date.now() - cached.validatedAt < this.maxAgeMs) {
+            return cached;
+        }
+
+        const headers: Record<string, string> = kind === "dataset" ? {Accept: "text/turtle"} : {};
+        if (cached?.etag) {
+            headers["If-None-Match"] = cached.etag;
+        } else if (cached?.lastModified) {
+            headers["If-Modified-Since"] = cached.lastModified;
+        }
+
+        const response = await podFetch(url, {method: "HEAD", headers});
+        if (response.status === 304 && cached) {
+            const revalidated = {...cached, validatedAt: Date.now()};
+            this.cache.set(key, revalidated);
+            return revalidated;
+        }
+        if (!response.ok) {
+            this.cache.delete(key);
+            throw podResponseToHttpError(response, "Reading the resource");
+        }
+
+        const etag = response.headers.get("ETag") ?? undefined;
+        const lastModified = response.headers.get("Last-Modified") ?? undefined;
+        let resource: CachedResource;
+        if (kind === "dataset") {
+            const solidDataset = await load() as SolidDataset;
+            resource = {solidDataset, etag, lastModified, size: Buffer.byteLength(JSON.stringify(solidDataset)), validatedAt: Date.now()};
+        } else {
+            const file = await load() as Blob;
+            resource = {file, etag, lastModified, size: file.size, validatedAt: Date.now()};
+        }
+
+        if (etag || lastModified) {
+            this.cache.set(key, resource);
+        } else {
+            this.cache.delete(key);
+        }
+        return resource;
+    }
+
+    /**
+     * Removes a resource, and its parent container of which the listing changes, from the cache of all users.
+     * @param {string} url - The URL of the resource that was written or deleted.
+     */
+    invalidate(url: string) {
+        const href = new URL(url).href;
+        const parent = new URL(href.endsWith("/") ? ".." : ".", href).href;
+        for (const key of this.cache.keys()) {
+            const keyUrl = key.slice(key.indexOf(" ") + 1);
+            if (keyUrl === href || keyUrl === parent) {
+                this.cache.delete(key);
+            }
+        }
+    }
+
+    clear() {
+        this.cache.clear();
+    }
+}
@@ -1,6 +1,9 @@
 import {Request, Response} from "express";
 import {HttpError} from "../http-error/http-error";
 import {UploadedFile} from "express-fileupload";
+import {fetchWithVc} from "@inrupt/solid-client-access-grants";
+import httpContext from "express-http-context";
+import {applyResourceUrlPolicy, ResourceUrlPolicy} from "./resource-url-policy";
 
 /**
  * Validates the session to ensure it is authenticated and has a valid access grant.
@@ -33,4 +36,146 @@ export function validateSession(req: Request, res: Response) {
 export function convertUploadedFileToFile(uploadedFile: UploadedFile): File {
     const scanFileContent = uploadedFile.data;
     return new File([scanFileContent], uploadedFile.name, {type: uploadedFile.mimetype});
-}
\ No newline at end of file
+}
+
+/**
+ * Creates a fetch function that is authorised with the access grant in the session, to address the pod directly.
+ * Like the calls of the `PodService`, its requests carry the correlation ID of the request in the `X-Correlation-Id` header.
+ * @param {URL} resourceUrl - The URL of the resource that will be fetched.
+ * @param {Request} req - The Express request object, containing the access grant in the session.
+ * @param {Response} res - The Express response object, containing the authenticated session.
+ * @param {typeof fetch} [authFetch] - The authenticated fetch of the requestor, defaults to the fetch of the session.
+ * @returns {Promise<typeof fetch>} The fetch function authorised with the access grant.
+ */
+export async function getAccessGrantFetch(resourceUrl: URL, req: Request, res: Response, authFetch?: typeof fetch): Promise<typeof fetch> {
+    const vcFetch = await fetchWithVc(resourceUrl.href, JSON.parse(req.session.accessGrant!), {fetch: authFetch ?? res.locals.session.fetch});
+    const correlationId: string | undefined = httpContext.get('correlationId');
+    if (!correlationId) {
+        return vcFetch;
+    }
+    return (input, init) => {
+        // The fetch of the access grant spreads the headers into an object, so they are passed as one.
+        const headers: Record<string, string> = {"x-correlation-id": correlationId};
+        new Headers(init?.headers).forEach((value, name) => headers[name] = value);
+        return vcFetch(input, {...init, headers});
+    };
+}
+
+/**
+ * Checks whether the `If-Match` header of a request is satisfied by the current entity tag of an existing resource, as defined
+ * in RFC 9110 section 13.1.1: `*` matches any current representation, and otherwise one of the comma-separated entity tags has
+ * to match the current one with the strong comparison, so weak entity tags never match.
+ * @param {string} ifMatch - The value of the `If-Match` header.
+ * @param {string | null} etag - The current entity tag of the resource, null if the pod didn't send one.
+ * @returns {boolean} True if the precondition holds.
+ */
+export function isIfMatchSatisfied(ifMatch: string, etag: string | null): boolean {
+    if (ifMatch.trim() === "*") {
+        return true;
+    }
+    if (!etag || etag.startsWith("W/")) {
+        return false;
+    }
+    return (ifMatch.match(/(W\/)?"[^"]*"/g) ?? []).some(tag => tag === etag);
+}
+
+/**
+ * Converts an unsuccessful response of the pod to an HttpError, mapping a failed precondition to a 412.
+ * @param {globalThis.Response} response - The response of the pod.
+ * @param {string} operation - A description of the operation, used in the error message.
+ * @returns {HttpError} The error to pass to the next middleware.
+ */
+export function podResponseToHttpError(response: globalThis.Response, operation: string): HttpError {
+    if (response.status === 412) {
+        return new HttpError(`${operation} failed, the resource [${response.url}] was modified in the meantime.`, 412);
+    }
+    return new HttpError(`${operation} failed for resource [${response.url}] with status [${response.status}].`, response.status);
+}
+
+/**
+ * Where a middleware reads the resource URL of a request from: a query parameter, a route parameter, a header,
+ * or a custom resolver function.
+ */
+export type ResourceUrlSource =
+    { query: string } |
+    { param: string } |
+    { header: string } |
+    ((req: Request, res: Response) => string | string[] | undefined);
+
+/**
+ * Determines the resource URL source of a middleware, falling back to the query parameter key of the older context objects.
+ * @param {ResourceUrlSource} [resourceUrl] - The configured resource URL source.
+ * @param {string} [parameterKey] - The configured query parameter key.
+ * @returns {ResourceUrlSource} The resource URL source.
+ * @throws {Error} Throws an error if neither is configured.
+ */
+export function getResourceUrlSource(resourceUrl?: ResourceUrlSource, parameterKey?: string): ResourceUrlSource {
+    if (resourceUrl) {
+        return validateResourceUrlSource(resourceUrl);
+    }
+    if (parameterKey) {
+        return { query: parameterKey };
+    }
+    throw new Error("Either a resource URL source or a resource URL parameter key should be configured.");
+}
+
+/**
+ * Validates a configured resource URL source, so the middleware factories reject a bad configuration when they are called.
+ * @param {ResourceUrlSource} source - The configured resource URL source.
+ * @returns {ResourceUrlSource} The resource URL source.
+ * @throws {Error} Throws an error if the source isn't a function or an object with a single non-empty `query`, `param` or `header` key.
+ */
+export function validateResourceUrlSource(source: ResourceUrlSource): ResourceUrlSource {
+    if (typeof source === "function") {
+        return source;
+    }
+    const entries = typeof source === "object" && source !== null ? Object.entries(source) : [];
+    if (entries.length !== 1 || !["query", "param", "header"].includes(entries[0][0]) || typeof entries[0][1] !== "string" || !entries[0][1]) {
+        throw new Error(`Invalid resource URL source [${JSON.stringify(source)}], expected a resolver function or one of { query }, { param } or { header }.`);
+    }
+    return source;
+}
+
+/**
+ * Resolves the resource URLs of a request. A query parameter may be repeated, and a resolver may return several URLs.
+ * Each URL is validated and normalised, and checked against the policy, which only allows the user's Pods by default.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @param {ResourceUrlSource} source - Where the resource URL is read from.
+ * @param {ResourceUrlPolicy} [policy] - The policy the resource URLs should comply with, the default policy if absent.
+ * @returns {string[]} The normalised resource URLs, empty if none is provided.
+ * @throws {HttpError} Throws a 400 error if a URL is malformed, and a 403 error if it is not allowed by the policy.
+ */
+export function resolveResourceUrls(req: Request, res: Response, source: ResourceUrlSource, policy?: ResourceUrlPolicy): string[] {
+    let value: unknown;
+    if (typeof source === "function") {
+        value = source(req, res);
+    } else if ("query" in source) {
+        value = req.query[source.query];
+    } else if ("param" in source) {
+        value = req.params[source.param];
+    } else {
+        value = req.get(source.header);
+    }
+    return (Array.isArray(value) ? value : [value])
+        .filter((url): url is string => typeof url === "string" && url.length > 0)
+        .map(url => applyResourceUrlPolicy(url, req, res, policy));
+}
+
+/**
+ * Describes a resource URL source, to be used in error messages.
+ * @param {ResourceUrlSource} source - The resource URL source.
+ * @returns {string} The description, e.g. `as a query parameter with key [resourceUrl]`.
+ */
+export function describeResourceUrlSource(source: ResourceUrlSource): string {
+    if (typeof source === "function") {
+        return "by the resource URL resolver";
+    }
+    if ("query" in source) {
+        return `as a query parameter with key [${source.query}]`;
+    }
+    if ("param" in source) {
+        return `as a route parameter with key [${source.param}]`;
+    }
+    return `in the header [${source.header}]`;
+}
@@ -0,0 +1,89 @@
+import {Request, Response} from "express";
+import {HttpError} from "../http-error/http-error";
+
+/**
+ * Restricts the resource URLs a client may let the middlewares access with the access grant of the application.
+ * Without a configured policy, the default policy applies, which only allows URLs in the user's Pods. Routes on which the Pods
+ * aren't resolved by `getPods`, nor stored in the session at login, therefore reject every URL unless the policy allows it.
+ * Set `restrictToPods` to false without `allowedOrigins` to allow any URL.
+ */
+export interface ResourceUrlPolicy {
+    restrictToPods?: boolean; // Only allow URLs in the user's Pods, as resolved by `getPods`. True by default.
+    allowedOrigins?: string[]; // Storage origins to which URLs may point next to the user's Pods, e.g. `https://storage.example.org`.
+    allowRelativePaths?: boolean; // Resolve relative paths against the root of the user's active Pod, as resolved by `getActivePod`.
+}
+
+/**
+ * Validates and normalises a resource URL provided by the client. Dot segments are resolved by the URL parser, so a `..` can't
+ * escape a permitted container unnoticed, and encoded slashes or backslashes, which pods may decode, are rejected.
+ * The URL must be in one of the user's Pods, or the allowed origins of the policy, and relative paths are resolved against the Pod root if
+ * the policy allows them.
+ * @param {string} resourceUrl - The resource URL provided by the client.
+ * @param {Request} req - The Express request object, containing the Pods of the user in the session.
+ * @param {Response} res - The Express response object, containing the Pods and active Pod of the user.
+ * @param {ResourceUrlPolicy} [policy={}] - The policy to apply, only allowing URLs in the user's Pods by default.
+ * @returns {string} The normalised resource URL.
+ * @throws {HttpError} Throws a 400 error if the URL is malformed, and a 403 error if it is not allowed by the policy.
+ */
+export function applyResourceUrlPolicy(resourceUrl: string, req: Request, res: Response, policy: ResourceUrlPolicy = {}): string {
+    const pods: string[] = res.locals.pods ?? req.session?.pods ?? [];
+
+    let url: URL;
+    if (isAbsoluteUrl(resourceUrl)) {
+        url = new URL(resourceUrl);
+    } else if (policy.allowRelativePaths) {
+        const podRoot = res.locals.pod ?? req.session?.activePod ?? (pods.length === 1 ? pods[0] : undefined);
+        if (!podRoot) {
+            throw new HttpError(
+                `The relative path [${resourceUrl}] can't be resolved, as no active Pod is known. The middleware getActivePod should be used first.`,
+                400,
+                { code: "RESOURCE_URL_INVALID" }
+            );
+        }
+        // Leading slashes are stripped, so the path is resolved against the Pod root instead of the root of its origin.
+        url = new URL(resourceUrl.replace(/^\/+/, ""), withTrailingSlash(podRoot));
+    } else {
+        throw new HttpError(`The resource URL [${resourceUrl}] is not a valid absolute URL.`, 400, { code: "RESOURCE_URL_INVALID" });
+    }
+
+    if ((url.protocol !== "https:" && url.protocol !== "http:") || url.username || url.password || /%(2f|5c)/i.test(url.pathname)) {
+        throw new HttpError(`The resource URL [${resourceUrl}] is not allowed.`, 400, { code: "RESOURCE_URL_INVALID" });
+    }
+    url.hash = "";
+
+    const inPod = pods.some(pod => url.href.startsWith(withTrailingSlash(new URL(pod).href)));
+    const inAllowedOrigin = (policy.allowedOrigins ?? []).some(origin => new URL(origin).origin === url.origin);
+    const restrictToPods = policy.restrictToPods ?? true;
+    if (!inAllowedOrigin && restrictToPods && pods.length === 0) {
+        throw new HttpError(
+            `The resource URL [${url.href}] can't be checked, as no Pods of the user are known. The middleware getPods should be used first, ` +
+            `or the urlPolicy should allow the URL with allowedOrigins or restrictToPods false.`,
+            403,
+            { code: "RESOURCE_URL_NOT_ALLOWED" }
+        );
+    }
+    if (!inAllowedOrigin && (restrictToPods ? !inPod : !!policy.allowedOrigins)) {
+        throw new HttpError(
+            restrictToPods
+                ? `The resource URL [${url.href}] is not in one of the Pods of the user${policy.allowedOrigins ? " or the allowed origins" : ""}.`
+                : `The resource URL [${url.href}] is not in one of the allowed origins.`,
+            403,
+            { code: "RESOURCE_URL_NOT_ALLOWED" }
+        );
+    }
+
+    return url.href;
+}
+
+function isAbsoluteUrl(url: string) {
+    try {
+        new URL(url);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function withTrailingSlash(url: string) {
+    return url.endsWith("/") ? url : `${url}/`;
+}
@@ -1,58 +1,60 @@
 import {getSessionFromStorage, IStorage, Session} from "@inrupt/solid-client-authn-node";
 import log from "loglevel";
-import {filter, firstValueFrom, Subject} from "rxjs";
-
-const refreshingSessions: string[] = [];
-const refreshedSubject = new Subject<Session | Error | null>();
-
-export async function getSessionFromStorageWrapper(sessionId: string, storage?: IStorage, onNewRefreshToken?: (newToken: string) => unknown) {
-    if (refreshingSessions.indexOf(sessionId) > -1) {
-        // The same session is executing multiple requests simultaneously
-        log.debug(`Session ${sessionId} is already being fetched, so we wait for it to finish...`);
-
-        // Await the required session, then continue. We don't need to subscribe, a single valid emit will be sufficient, use a promise.
-        const session = await firstValueFrom(
-            refreshedSubject.pipe(
-                filter(
-                    emittedValue =>
-                        (!(emittedValue instanceof Error) &&
-                            emittedValue?.info.sessionId /* null check is also included */ === sessionId) ||
-                        (emittedValue instanceof Error && emittedValue.message === sessionId)
-                ) // The value must be the required session, or an error thrown when fetching the session.
-            )
-        );
-
-        if (session instanceof Error) {
-            // We know that the error message is the required session ID at this point.
-            throw session;
-        }
-
-        log.debug(`Succesfully waited for session [${sessionId}].`);
+import {InProcessSessionLock, SessionLock} from "../session/session-lock";
+
+const defaultSessionLock = new InProcessSessionLock();
+
+/**
+ * Restores a session by its id, instead of `getSessionFromStorage`, e.g. the `sessionFactory` of the `TestSessionStorage`.
+ */
+export type SessionFactory = (sessionId: string) => Promise<Session | undefined>;
+
+/**
+ * Fetches a session from storage, which refreshes its tokens, while holding the session lock.
+ * Concurrent requests for the same session wait for the running fetch instead of refreshing simultaneously.
+ *
+ * @param {string} sessionId - The id of the session.
+ * @param {IStorage} [storage] - The storage containing the session, the in-memory storage of Inrupt if absent.
+ * @param {(newToken: string) => unknown} [onNewRefreshToken] - Called with the new refresh token when the tokens are refreshed.
+ * @param {Object} [options] - The session lock to use, in-process by default, the timeout in ms (default 30s), and the session
+ * factory restoring the session instead of `getSessionFromStorage` on the storage.
+ * @returns {Promise<Session | null | undefined>} The session, or null if it can't be fetched.
+ */
+export async function getSessionFromStorageWrapper(
+    sessionId: string,
+    storage?: IStorage,
+    onNewRefreshToken?: (newToken: string) => unknown,
+    options: { lock?: SessionLock, timeoutMs?: number, sessionFactory?: SessionFactory } = {}
+): Promise<Session | null | undefined> {
+    const lock = options.lock ?? defaultSessionLock;
+    const sessionFactory = options.sessionFactory ?? ((id: string) => getSessionFromStorage(id, { storage, onNewRefreshToken }));
+    try {
+        const session = await lock.runExclusive(sessionId, () => sessionFactory(sessionId), options.timeoutMs ?? 30000);
+        log.debug(`Succesfully fetched session [${sessionId}].`);
         return session;
-    } else {
-        // First tell system that session is being fetched. Next, await the session.
-        refreshingSessions.push(sessionId);
-
-        // Expose the session to the next middleware by using the response.
-        let session = null;
-        try {
-            session = await getSessionFromStorage(
-                sessionId,
-                { storage }
-            );
-        } catch (error) {
-            log.error(`Can't fetch session ${sessionId} from storage.\n${error}`);
-            refreshedSubject.next(new Error(sessionId));
-            refreshedSubject.next(null); // Emit a null value so previous value will no longer be used when a request is in queue.
-            refreshingSessions.splice(refreshingSessions.indexOf(sessionId), 1);
-            return null;
-        }
-
-        // Emit the session so that the waiting requests can continue.
-        refreshedSubject.next(session!);
-        refreshedSubject.next(null); // Emit a null value so previous value will no longer be used when a request is in queue.
-        refreshingSessions.splice(refreshingSessions.indexOf(sessionId), 1);
+    } catch (error) {
+        log.error(`Can't fetch session ${sessionId} from storage.\n${error}`);
+        return null;
+    }
+}
+
+/**
+ * Checks whether a redirect URL may be used after login or logout.
+ * Relative paths on the same origin are always allowed, absolute URLs only when their origin is in the allow-list.
+ *
+ * @param {string} redirectUrl - The redirect URL as provided by the client.
+ * @param {string[]} allowedOrigins - The origins to which absolute redirect URLs may point.
+ * @returns {boolean} - True if the redirect URL is allowed.
+ */
+export function isRedirectUrlAllowed(redirectUrl: string, allowedOrigins: string[] = []): boolean {
+    if (redirectUrl.startsWith("/") && !redirectUrl.startsWith("//") && !redirectUrl.startsWith("/\\")) {
+        return true;
+    }
 
-        return session;
+    try {
+        const url = new URL(redirectUrl);
+        return allowedOrigins.some(allowedOrigin => new URL(allowedOrigin).origin === url.origin);
+    } catch {
+        return false;
     }
-}
\ No newline at end of file
+}
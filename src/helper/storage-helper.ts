@@ -0,0 +1,108 @@
+import {createCipheriv, createDecipheriv, randomBytes} from "node:crypto";
+import log from "loglevel";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+/**
+ * Options shared by the bundled `IStorage` implementations.
+ */
+export interface StorageOptions {
+    ttlSeconds?: number; // Entries expire this long after their last write, they never expire if absent.
+    encryptionKey?: string | Buffer; // A 32 byte AES-256 key (or its base64 encoding) to encrypt the stored values, which contain the refresh tokens.
+}
+
+/**
+ * A stored value together with its expiry timestamp in milliseconds.
+ */
+export interface StorageEntry {
+    value: string;
+    expiresAt?: number;
+}
+
+/**
+ * A storage from which expired entries can be removed.
+ */
+export interface CleanableStorage {
+    cleanup(): Promise<number>;
+}
+
+/**
+ * Encodes a value as stored entry, encrypting it if an encryption key is configured.
+ * @param {string} value - The value to store.
+ * @param {StorageOptions} options - The TTL and encryption options of the storage.
+ * @returns {StorageEntry} The entry to store.
+ */
+export function encodeStorageEntry(value: string, options: StorageOptions): StorageEntry {
+    return {
+        value: options.encryptionKey ? encrypt(value, getEncryptionKey(options.encryptionKey)) : value,
+        expiresAt: options.ttlSeconds !== undefined ? Date.now() + options.ttlSeconds * 1000 : undefined
+    };
+}
+
+/**
+ * Decodes a stored entry to its value, decrypting it if an encryption key is configured.
+ * @param {StorageEntry | undefined} entry - The stored entry.
+ * @param {StorageOptions} options - The encryption options of the storage.
+ * @returns {string | undefined} The value, or undefined if there is no entry or it has expired.
+ */
+export function decodeStorageEntry(entry: StorageEntry | undefined, options: StorageOptions): string | undefined {
+    if (!entry || isStorageEntryExpired(entry)) {
+        return undefined;
+    }
+    if (!entry.value.startsWith(ENCRYPTED_PREFIX)) {
+        return entry.value;
+    }
+    if (!options.encryptionKey) {
+        throw new Error("Stored value is encrypted, but no encryption key is configured.");
+    }
+    return decrypt(entry.value, getEncryptionKey(options.encryptionKey));
+}
+
+/**
+ * Checks whether a stored entry has expired.
+ * @param {StorageEntry} entry - The stored entry.
+ * @returns {boolean} True if the entry has expired.
+ */
+export function isStorageEntryExpired(entry: StorageEntry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+/**
+ * Starts a job that periodically removes the expired entries from a storage.
+ * The job doesn't keep the Node process alive.
+ * @param {CleanableStorage} storage - The storage to clean up.
+ * @param {number} [intervalSeconds=3600] - The interval between cleanups.
+ * @returns {() => void} A function that stops the job.
+ */
+export function startStorageCleanup(storage: CleanableStorage, intervalSeconds: number = 3600): () => void {
+    const interval = setInterval(() => {
+        storage.cleanup()
+            .then(removed => log.debug(`[storageCleanup] Removed [${removed}] expired entries from storage.`))
+            .catch(error => log.error(`[storageCleanup] Cleaning up storage failed.\n${error}`));
+    }, intervalSeconds * 1000);
+    interval.unref();
+
+    return () => clearInterval(interval);
+}
+
+function getEncryptionKey(encryptionKey: string | Buffer): Buffer {
+    const key = typeof encryptionKey === "string" ? Buffer.from(encryptionKey, "base64") : encryptionKey;
+    if (key.length !== 32) {
+        throw new Error("The storage encryption key must be 32 bytes long.");
+    }
+    return key;
+}
+
+function encrypt(value: string, key: Buffer): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const encrypted = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+    return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+}
+
+function decrypt(value: string, key: Buffer): string {
+    const data = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), "base64");
+    const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString("utf-8");
+}
@@ -0,0 +1,65 @@
+import {Transform} from "node:stream";
+import {HttpError} from "../http-error/http-error";
+
+/**
+ * The response headers of the pod that are relayed to the client when streaming a file.
+ */
+export const STREAMED_RESPONSE_HEADERS = ["Content-Type", "Content-Length", "Content-Range", "Accept-Ranges", "ETag", "Last-Modified"];
+
+/**
+ * The request headers of the client that are forwarded to the pod when streaming a file.
+ */
+export const STREAMED_REQUEST_HEADERS = ["Range", "If-Range", "If-None-Match", "If-Modified-Since"];
+
+/**
+ * Checks whether a MIME type is in an allow-list. Entries like `image/*` allow all subtypes.
+ * @param {string} mimeType - The MIME type to check, parameters are ignored.
+ * @param {string[]} [allowedMimeTypes] - The allowed MIME types, all are allowed if absent.
+ * @returns {boolean} True if the MIME type is allowed.
+ */
+export function isMimeTypeAllowed(mimeType: string, allowedMimeTypes?: string[]): boolean {
+    if (!allowedMimeTypes) {
+        return true;
+    }
+    const type = mimeType.split(";")[0].trim().toLowerCase();
+    return allowedMimeTypes.some(allowed =>
+        allowed.toLowerCase() === type ||
+        (allowed.endsWith("/*") && type.startsWith(allowed.slice(0, -1).toLowerCase()))
+    );
+}
+
+/**
+ * Validates the MIME type and size of a file against the configured limits.
+ * @param {string} mimeType - The MIME type of the file.
+ * @param {number | undefined} size - The size of the file in bytes, if known.
+ * @param {Object} limits - The allowed MIME types and maximum file size in bytes.
+ * @throws {HttpError} Throws a 415 error if the MIME type isn't allowed, and a 413 error if the file is too large.
+ */
+export function validateFileLimits(mimeType: string, size: number | undefined, limits: { allowedMimeTypes?: string[], maxFileSize?: number }) {
+    if (!isMimeTypeAllowed(mimeType, limits.allowedMimeTypes)) {
+        throw new HttpError(`Files of type [${mimeType}] are not allowed.`, 415);
+    }
+    if (limits.maxFileSize !== undefined && size !== undefined && size > limits.maxFileSize) {
+        throw new HttpError(`Files may not be larger than [${limits.maxFileSize}] bytes.`, 413);
+    }
+}
+
+/**
+ * Creates a transform stream that passes data through until more than the maximum number of bytes have passed,
+ * in which case the stream is destroyed with a 413 error.
+ * @param {number} [maxBytes] - The maximum number of bytes, unlimited if absent.
+ * @returns {Transform} The transform stream.
+ */
+export function createSizeLimiter(maxBytes?: number): Transform {
+    let bytes = 0;
+    return new Transform({
+        transform(chunk: Buffer, encoding, callback) {
+            bytes += chunk.length;
+            if (maxBytes !== undefined && bytes > maxBytes) {
+                callback(new HttpError(`Files may not be larger than [${maxBytes}] bytes.`, 413));
+                return;
+            }
+            callback(null, chunk);
+        }
+    });
+}
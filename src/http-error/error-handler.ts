@@ -1,21 +1,44 @@
 import { NextFunction, Request, Response } from "express";
+import { STATUS_CODES } from "node:http";
 import log from "loglevel";
+import httpContext from "express-http-context";
 import { HttpError } from "./http-error";
 
 /**
  * Middleware function to handle errors.
+ * Errors are sent as RFC 9457 `application/problem+json` responses, including the correlation id of the request.
+ * The message of errors other than `HttpError` is masked when `maskInternalErrors` is set, which defaults to true in production.
+ *
+ * @param {Object} this - The context object that may contain the `maskInternalErrors` option.
  * @param {Error} error - The error object.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function.
  */
-export function errorHandler(error: Error, req: Request, res: Response, next: NextFunction) {
+export function errorHandler(this: { maskInternalErrors?: boolean } | undefined, error: Error, req: Request, res: Response, next: NextFunction) {
   log.error(error.message);
   log.error(error.stack);
 
-  if (error instanceof HttpError) {
-    res.status(error.statusCode || 500).send(error.message);
-  } else {
-    res.status(500).send(error.message);
+  if (res.headersSent) {
+    // The response can't be changed anymore, let ExpressJS close the connection.
+    next(error);
+    return;
   }
+
+  const maskInternalErrors = this?.maskInternalErrors ?? process.env.NODE_ENV === "production";
+  const status = error instanceof HttpError ? error.statusCode || 500 : 500;
+
+  // The extensions come first, so they can't overwrite the standard problem details members.
+  res.status(status).type("application/problem+json").send({
+    ...(error instanceof HttpError ? error.extensions : {}),
+    type: "about:blank",
+    title: STATUS_CODES[status] ?? "Unknown Error",
+    status,
+    detail: error instanceof HttpError
+      ? error.detail ?? error.message
+      : maskInternalErrors ? "An unexpected error occurred." : error.message,
+    instance: req.originalUrl,
+    ...(error instanceof HttpError && error.code ? { code: error.code } : {}),
+    correlationId: httpContext.get("correlationId")
+  });
 }
@@ -4,14 +4,21 @@
 
 export class HttpError extends Error {
   statusCode: number;
+  code?: string;
+  detail?: string;
+  extensions?: Record<string, unknown>;
 
   /**
    * Creates an instance of HttpError.
    * @param {string} message - The error message.
    * @param {number} statusCode - The HTTP status code.
+   * @param {Object} [options] - Optional machine-readable error code, human-readable detail for the client, extension members of the problem details and the underlying cause.
    */
-  constructor(message: string, statusCode: number) {
-    super(message);
+  constructor(message: string, statusCode: number, options?: { code?: string, detail?: string, extensions?: Record<string, unknown>, cause?: unknown }) {
+    super(message, options?.cause !== undefined ? { cause: options.cause } : undefined);
     this.statusCode = statusCode;
+    this.code = options?.code;
+    this.detail = options?.detail;
+    this.extensions = options?.extensions;
   }
 }
@@ -1,9 +1,30 @@
 export { } from "./session/session-data";
 export { errorHandler } from "./http-error/error-handler";
-export { getSession, getSessionOptional, getSessionMandatory } from "./middleware/session-middleware";
-export { validateAccessGrant, fetchAccessGrants } from "./middleware/vc-middleware";
-export { getPods, getPodsMandatory, getPodsOptional, getPodsMandatoryOrOptional } from "./middleware/pod-middleware";
+export { getSession, getSessionOptional, getSessionMandatory, createSolidAuthRouter, SolidAuthRouterOptions, createSessionMiddleware, SessionMiddleware, SessionContext } from "./middleware/session-middleware";
+export { validateAccessGrant, fetchAccessGrants, ensureAccessGrant, verifyAccessGrantScope, createVcMiddleware, VcMiddleware, VcMiddlewareOptions } from "./middleware/vc-middleware";
+export { getPods, getPodsMandatory, getPodsOptional, getPodsMandatoryOrOptional, getActivePod, createPodMiddleware, PodMiddleware, PodMiddlewareOptions, PodContext } from "./middleware/pod-middleware";
 export { HttpError } from "./http-error/http-error";
-export { getResource, getFile, writeFile, writeResource } from "./middleware/resource-middleware";
+export { getResource, sendResource, getFile, writeFile, writeResource, patchResource, listContainer, createContainer, deleteResource, ContainerItem, ContainerPage, FileResult, createResourceMiddleware, ResourceMiddleware, ResourceMiddlewareOptions } from "./middleware/resource-middleware";
 export { overrideSessionData } from "./session/session-data";
-export { getSessionFromStorageWrapper } from "./helper/session-helper"
\ No newline at end of file
+export { getSessionFromStorageWrapper, SessionFactory } from "./helper/session-helper"
+export { ResourceUrlSource } from "./helper/resource-helper";
+export { ResourceUrlPolicy, applyResourceUrlPolicy } from "./helper/resource-url-policy";
+export { SolidLocals, SolidRequestHandler } from "./session/response-locals";
+export { SessionLock, InProcessSessionLock, StorageSessionLock } from "./session/session-lock";
+export { FileSystemStorage } from "./storage/file-system-storage";
+export { SqliteStorage, SqliteDatabase } from "./storage/sqlite-storage";
+export { KeyValueStorage, KeyValueClient } from "./storage/key-value-storage";
+export { StorageOptions, startStorageCleanup } from "./helper/storage-helper";
+export { LruCache } from "./helper/lru-cache";
+export { ResourceCache, CachedResource } from "./helper/resource-cache";
+export { ResiliencePolicy, ResiliencePolicyOptions, OperationPolicy, ResilientOperation, ResilientCallOptions } from "./helper/resilience";
+export { Shape, ShapeProperty, ShapeDatatype, ShapedObject, ShapeViolation, validateShape } from "./shape/shape";
+export { shapeFromShacl } from "./shape/shacl-shape";
+export { AuditEvent, AuditOperation, AuditSink } from "./audit/audit";
+export { JsonlAuditSink } from "./audit/jsonl-audit-sink";
+export { PodAuditSink } from "./audit/pod-audit-sink";
+export { getAuditLog } from "./middleware/audit-middleware";
+export { requestContext, createRequestContextMiddleware, RequestContextOptions } from "./middleware/context-middleware";
+export { NotificationRelay, NotificationRelayOptions } from "./notification/notification-relay";
+export { NotificationChannel, NotificationChannelType, subscribeToNotifications, unsubscribeFromNotifications } from "./notification/notification-subscription";
+export { relayNotifications, receiveWebhookNotification, createNotificationMiddleware, NotificationMiddleware, NotificationMiddlewareOptions } from "./middleware/notification-middleware";
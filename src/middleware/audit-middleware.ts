@@ -0,0 +1,39 @@
+import {NextFunction, Request, Response} from "express";
+import {HttpError} from "../http-error/http-error";
+import {AuditSink} from "../audit/audit";
+
+/**
+ * Middleware to expose the access log of the logged in user, i.e. the audit events of their own WebID, via `res.locals.auditLog`.
+ * The `since` (ISO date) and `limit` query parameters restrict the returned events, most recent first.
+ *
+ * @param {Object} this - The context object containing the audit sink, and optionally the default and maximum number of returned events.
+ * @param {Request} req - The Express request object, containing the query parameters.
+ * @param {Response} res - The Express response object, containing the authenticated session.
+ * @param {NextFunction} next - The next middleware function to call after retrieving the access log.
+ * @throws {HttpError} - Throws a 401 error if the session is not authenticated, a 400 error if the query parameters are invalid, and a 501 error if the audit sink can't be queried.
+ */
+export async function getAuditLog(this: { auditSink?: AuditSink, limit?: number, maxLimit?: number } | undefined, req: Request, res: Response, next: NextFunction) {
+    try {
+        if (!res.locals.session?.info?.webId || !res.locals.session.info.isLoggedIn) {
+            throw new HttpError("[getAuditLog] Fetching the access log - but no valid authenticated session found.", 401);
+        }
+
+        const auditSink = this?.auditSink;
+        if (!auditSink?.query) {
+            throw new HttpError("[getAuditLog] The configured audit sink can't be queried.", 501);
+        }
+
+        const since = req.query.since ? new Date(req.query.since as string) : undefined;
+        const limit = req.query.limit ? Number(req.query.limit) : this?.limit ?? 100;
+        if ((since && isNaN(since.getTime())) || !Number.isInteger(limit) || limit < 1 || limit > (this?.maxLimit ?? 1000)) {
+            throw new HttpError(`[getAuditLog] The since parameter should be a date, and the limit a positive integer of at most [${this?.maxLimit ?? 1000}].`, 400);
+        }
+
+        res.locals.auditLog = await auditSink.query(res.locals.session.info.webId, { since, limit });
+
+        next();
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
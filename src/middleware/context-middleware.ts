@@ -0,0 +1,119 @@
+import {NextFunction, Request, Response} from "express";
+import httpContext from "express-http-context";
+import log from "loglevel";
+import {randomUUID} from "node:crypto";
+import {SolidRequestHandler} from "../session/response-locals";
+
+const TRACEPARENT = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/;
+const CORRELATION_ID = /^[\w.:-]{1,128}$/;
+
+let logPrefixInstalled = false;
+
+/**
+ * The context object of the request context middleware, and the options of `createRequestContextMiddleware`.
+ */
+export type RequestContextOptions = {
+    correlationIdHeaders?: string[], // The request headers to take the correlation ID from, in order. `X-Correlation-Id` and `traceparent` by default.
+    responseHeader?: string, // The response header to echo the correlation ID in, `X-Correlation-Id` by default.
+    logPrefix?: boolean // Prefixes the `loglevel` output with the correlation ID, WebID and session id of the request. True by default.
+};
+
+/**
+ * Middleware to initialise the request context of express-http-context, which the other middlewares read the correlation ID from.
+ * It must be used before all other middlewares of this library. The correlation ID is taken from the first of the
+ * `correlationIdHeaders` that contains a valid one (for a W3C `traceparent` header, its trace id), or otherwise generated.
+ * It is stored as `correlationId` in the context and echoed in the `responseHeader`. The Solid session id is stored as `sessionId`,
+ * and `getSession` adds the `webId` of the user. Unless disabled, the `loglevel` output is prefixed with these values.
+ *
+ * @param {Object} this - The context object that may contain the correlation ID headers, the response header and whether to prefix the log output.
+ * @param {Request} req - The Express request object, containing the correlation ID headers.
+ * @param {Response} res - The Express response object, used to echo the correlation ID.
+ * @param {NextFunction} next - The next middleware function to call within the request context.
+ */
+export async function requestContext(this: RequestContextOptions | undefined, req: Request, res: Response, next: NextFunction) {
+    const logPrefix = this?.logPrefix ?? true;
+    if (logPrefix) {
+        installLogPrefix();
+    }
+
+    // Equivalent to `httpContext.middleware`, of which the typings are bound to an older version of Express.
+    httpContext.ns.run(() => {
+        try {
+            const correlationId = getCorrelationId(req, this?.correlationIdHeaders ?? ["X-Correlation-Id", "traceparent"]) ?? randomUUID();
+            httpContext.set("correlationId", correlationId);
+            httpContext.set("sessionId", req.session?.solidSid);
+            httpContext.set("logPrefix", logPrefix);
+            res.set(this?.responseHeader ?? "X-Correlation-Id", correlationId);
+
+            next();
+        } catch (error) {
+            // A general error catcher which will, in turn, call the ExpressJS error handler.
+            next(error);
+        }
+    });
+}
+
+/**
+ * Creates the request context middleware with the given options, as typed request handler instead of a function to bind.
+ *
+ * @param {RequestContextOptions} [options] - The correlation ID headers, the response header and whether to prefix the log output.
+ * @returns {SolidRequestHandler} The request context middleware.
+ */
+export function createRequestContextMiddleware(options: RequestContextOptions = {}): SolidRequestHandler {
+    return requestContext.bind({ ...options });
+}
+
+/**
+ * Reads the correlation ID from the first header that contains a valid one. Other values are ignored, so they can't inject
+ * arbitrary content in the logs.
+ */
+function getCorrelationId(req: Request, headers: string[]): string | undefined {
+    for (const header of headers) {
+        const value = req.get(header)?.trim();
+        if (!value) {
+            continue;
+        }
+        if (header.toLowerCase() === "traceparent") {
+            const traceId = TRACEPARENT.exec(value)?.[1];
+            if (traceId) {
+                return traceId;
+            }
+        } else if (CORRELATION_ID.test(value)) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Wraps the method factory of the default `loglevel` logger once, so every message logged within a request context of which the
+ * log prefix is enabled is prefixed with its correlation ID, WebID and session id.
+ */
+function installLogPrefix() {
+    if (logPrefixInstalled) {
+        return;
+    }
+    logPrefixInstalled = true;
+
+    const methodFactory = log.methodFactory;
+    log.methodFactory = (methodName, logLevel, loggerName) => {
+        const logMethod = methodFactory(methodName, logLevel, loggerName);
+        return (...message: unknown[]) => {
+            if (!httpContext.get("logPrefix")) {
+                logMethod(...message);
+                return;
+            }
+            const prefix = [
+                ["correlationId", httpContext.get("correlationId")],
+                ["webId", httpContext.get("webId")],
+                ["sessionId", httpContext.get("sessionId")]
+            ].filter(([, value]) => value).map(([key, value]) => `${key}=${value}`).join(" ");
+            if (prefix) {
+                logMethod(`[${prefix}]`, ...message);
+            } else {
+                logMethod(...message);
+            }
+        };
+    };
+    log.rebuild();
+}
@@ -0,0 +1,119 @@
+import {NextFunction, Request, Response} from "express";
+import {HttpError} from "../http-error/http-error";
+import {NotificationRelay} from "../notification/notification-relay";
+import {
+    describeResourceUrlSource,
+    getResourceUrlSource,
+    ResourceUrlSource,
+    resolveResourceUrls,
+    validateResourceUrlSource
+} from "../helper/resource-helper";
+import {ResourceUrlPolicy} from "../helper/resource-url-policy";
+import {bodyAsString, isEmptyBody} from "../helper/rdf-helper";
+import {SolidRequestHandler} from "../session/response-locals";
+
+/**
+ * Options of the notification middlewares created by `createNotificationMiddleware`.
+ */
+export interface NotificationMiddlewareOptions {
+    notificationRelay: NotificationRelay;
+    resourceUrl?: ResourceUrlSource; // Where the URL of the resource or container is read from, the `resourceUrl` query parameter by default.
+    urlPolicy?: ResourceUrlPolicy; // Restricts the URLs to the user's Pods or allowed origins, to the user's Pods by default.
+    tokenParameterKey?: string; // The route parameter of the webhook containing the subscription token, `token` by default.
+}
+
+/**
+ * The notification middlewares created by `createNotificationMiddleware`.
+ */
+export interface NotificationMiddleware {
+    relayNotifications: SolidRequestHandler;
+    receiveWebhookNotification: SolidRequestHandler;
+}
+
+/**
+ * Creates the notification middlewares with the given options, as typed request handlers instead of functions to bind.
+ *
+ * @param {NotificationMiddlewareOptions} options - The notification relay, the resource URL source and URL policy, and the webhook token parameter.
+ * @returns {NotificationMiddleware} The notification middlewares.
+ */
+export function createNotificationMiddleware(options: NotificationMiddlewareOptions): NotificationMiddleware {
+    const context = { ...options, resourceUrl: validateResourceUrlSource(options.resourceUrl ?? { query: "resourceUrl" }) };
+    return {
+        relayNotifications: relayNotifications.bind(context),
+        receiveWebhookNotification: receiveWebhookNotification.bind(context)
+    };
+}
+
+/**
+ * Middleware to relay the Solid Notifications of a resource or container in the user's pod to the client as Server-Sent Events,
+ * e.g. to be consumed with an `EventSource` in the browser. Each notification is sent as an event named after its activity type
+ * (e.g. `Update`, `Add`), with the notification as JSON-LD data. The notifications are subscribed to with the authenticated fetch
+ * of the session, and the subscription is closed when the client disconnects or the session logs out.
+ * The response is kept open instead of calling the next middleware.
+ *
+ * @param {Object} this - The context object containing the notification relay and the resource URL parameter key or source and URL policy.
+ * @param {Request} req - The Express request object, containing session and query parameters.
+ * @param {Response} res - The Express response object, containing the authenticated session.
+ * @param {NextFunction} next - The next middleware function, only called on errors.
+ * @throws {HttpError} - Throws a 401 error if the session is not authenticated, a 400 error if the resource URL is missing or invalid, and the status of the pod if subscribing fails.
+ * @throws {Error} - Passes any other errors to the next middleware.
+ */
+export async function relayNotifications(this: {
+    notificationRelay: NotificationRelay,
+    resourceUrlParameterKey?: string,
+    resourceUrl?: ResourceUrlSource,
+    urlPolicy?: ResourceUrlPolicy
+}, req: Request, res: Response, next: NextFunction) {
+    try {
+        if (!res.locals.session?.info?.isLoggedIn || !req.session?.solidSid) {
+            throw new HttpError("No valid authenticated session found.", 401);
+        }
+
+        const source = getResourceUrlSource(this.resourceUrl, this.resourceUrlParameterKey);
+        const [topic] = resolveResourceUrls(req, res, source, this.urlPolicy);
+        if (!topic) {
+            throw new HttpError(
+                `The middleware relayNotifications requires a resource URL to be provided ${describeResourceUrlSource(source)}.`,
+                400
+            );
+        }
+
+        const sessionId = req.session.solidSid;
+        res.on("close", () => this.notificationRelay.removeClient(sessionId, topic, res));
+        await this.notificationRelay.addClient(sessionId, topic, res.locals.session.fetch, res);
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+/**
+ * Middleware to receive the notifications the pod posts to the webhook of a `WebhookChannel2023`, and relay them to the clients.
+ * It should be mounted on the `webhookBaseUrl` of the relay, followed by a route parameter for the subscription token,
+ * e.g. `app.post("/notifications/:token", receiveWebhookNotification.bind({ notificationRelay }))`. The unguessable token
+ * identifies the subscription. The notification is read from the body as left by a JSON or text body parser, so one of these
+ * must be mounted before it, e.g. `express.text({ type: () => true })`.
+ *
+ * @param {Object} this - The context object containing the notification relay and optionally the token parameter key.
+ * @param {Request} req - The Express request object, containing the token and the notification.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function, only called on errors.
+ * @throws {HttpError} - Throws a 400 error if the body is missing or wasn't parsed, and a 404 error if the token doesn't belong to an open subscription.
+ */
+export async function receiveWebhookNotification(this: { notificationRelay: NotificationRelay, tokenParameterKey?: string }, req: Request, res: Response, next: NextFunction) {
+    try {
+        if (isEmptyBody(req.body)) {
+            throw new HttpError("The webhook notification requires a body, parsed by a JSON or text body parser.", 400);
+        }
+
+        const token = req.params[this.tokenParameterKey ?? "token"];
+        if (typeof token !== "string" || !this.notificationRelay.receive(token, bodyAsString(req.body))) {
+            throw new HttpError("No notification subscription found.", 404);
+        }
+
+        res.sendStatus(202);
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
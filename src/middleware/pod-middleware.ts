@@ -2,53 +2,107 @@ import {NextFunction, Request, Response} from "express";
 import {getPodUrlAll} from "@inrupt/solid-client";
 import log from "loglevel";
 import {HttpError} from "../http-error/http-error";
+import {LruCache} from "../helper/lru-cache";
+import {SolidRequestHandler} from "../session/response-locals";
+import {ResiliencePolicy, withResilience} from "../helper/resilience";
+
+/**
+ * The context object of the pod middlewares.
+ */
+export type PodContext = {
+    podCache?: LruCache<string, string[]>, // Caches the Pod URLs per WebID, next to the cache in `req.session.pods`.
+    sessionPodsTtlSeconds?: number, // How long the Pod URLs in `req.session.pods` are used before they are looked up again, 1 hour by default.
+    resilience?: ResiliencePolicy // Guards the lookup of the Pod URLs with a timeout, retries and a circuit breaker.
+};
+
+/**
+ * Options of the pod middlewares created by `createPodMiddleware`.
+ */
+export type PodMiddlewareOptions = PodContext & {
+    podParameterKey?: string, // The query parameter to select the active Pod with, `pod` by default.
+    podHeader?: string // The header to select the active Pod with, `X-Pod` by default.
+};
+
+/**
+ * The pod middlewares created by `createPodMiddleware`.
+ */
+export interface PodMiddleware {
+    getPods: SolidRequestHandler;
+    getPodsMandatory: SolidRequestHandler;
+    getPodsOptional: SolidRequestHandler;
+    getActivePod: SolidRequestHandler;
+}
+
+/**
+ * Creates the pod middlewares with the given options, as typed request handlers instead of functions to bind.
+ *
+ * @param {PodMiddlewareOptions} [options] - The Pod cache shared between sessions and the keys to select the active Pod with.
+ * @returns {PodMiddleware} The pod middlewares.
+ */
+export function createPodMiddleware(options: PodMiddlewareOptions = {}): PodMiddleware {
+    const context = { ...options };
+    return {
+        getPods: getPods.bind(context),
+        getPodsMandatory: getPodsMandatory.bind(context),
+        getPodsOptional: getPodsOptional.bind(context),
+        getActivePod: getActivePod.bind(context)
+    };
+}
 
 /**
  * Middleware to fetch all Pod URLs associated with the user's WebID.
  * If no authenticated session is found, it returns an unauthorized error (401).
  * Stores the retrieved Pod URLs in `res.locals.pods` for access by subsequent middleware.
+ * The Pod URLs are looked up with the authenticated fetch of the session, and cached in `req.session.pods` (for `sessionPodsTtlSeconds`)
+ * and, if given, the `podCache`. An empty result isn't cached, so Pods created later are found.
  *
+ * @param {Object} this - The context object that may contain a Pod cache shared between sessions and a resilience policy.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object. It uses `res.locals` to store the session information and Pod URLs.
  * @param {NextFunction} next - The next middleware function to call after fetching the Pods.
  * @throws {HttpError} - Throws a 401 error if the session is not authenticated, and a 404 error if no Pods are found for the WebID.
  * @throws {Error} - Passes any other errors to the next middleware.
  */
-export async function getPods(req: Request, res: Response, next: NextFunction) {
-    return getPodsMandatoryOrOptional(req, res, next);
+export async function getPods(this: PodContext | undefined, req: Request, res: Response, next: NextFunction) {
+    return getPodsMandatoryOrOptional.bind(this)(req, res, next);
 }
 
 /**
  * Middleware alias for `getPods` to ensure that fetching Pods is mandatory.
  * This will throw an error if the session is not authenticated or no Pods are found.
  *
+ * @param {Object} this - The context object that may contain a Pod cache shared between sessions and a resilience policy.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function to call after fetching the Pods.
  * @throws {HttpError} - Throws a 401 error if the session is not authenticated.
  * @throws {Error} - Passes any other errors to the next middleware.
  */
-export async function getPodsMandatory(req: Request, res: Response, next: NextFunction) {
-    return getPods(req, res, next);
+export async function getPodsMandatory(this: PodContext | undefined, req: Request, res: Response, next: NextFunction) {
+    return getPods.bind(this)(req, res, next);
 }
 
 /**
  * Middleware alias for `getPodsMandatoryOrOptional` where fetching Pods is optional.
  * If the session is not authenticated or no Pods are found, it simply moves to the next middleware without throwing errors.
  *
+ * @param {Object} this - The context object that may contain a Pod cache shared between sessions and a resilience policy.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function to call after the optional fetch attempt.
  */
-export async function getPodsOptional(req: Request, res: Response, next: NextFunction) {
-    return getPodsMandatoryOrOptional(req, res, next, false);
+export async function getPodsOptional(this: PodContext | undefined, req: Request, res: Response, next: NextFunction) {
+    return getPodsMandatoryOrOptional.bind(this)(req, res, next, false);
 }
 
 /**
  * Internal function to fetch all Pod URLs associated with the user's WebID.
  * If the session is not authenticated or no WebID is present, it throws a 401 error (if mandatory).
  * If no Pods are found, it throws a 404 error (if mandatory). Otherwise, it stores the Pod URLs in `res.locals.pods`.
+ * Pod URLs are taken from `req.session.pods` (until `sessionPodsTtlSeconds` have passed) or the `podCache` when available, and otherwise
+ * looked up with the authenticated fetch of the session. Only non-empty results are cached.
  *
+ * @param {Object} this - The context object that may contain a Pod cache shared between sessions and a resilience policy.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object, which contains session information and stores the Pod URLs in `res.locals.pods`.
  * @param {NextFunction} next - The next middleware function to call after fetching the Pods.
@@ -56,7 +110,7 @@ export async function getPodsOptional(req: Request, res: Response, next: NextFun
  * @throws {HttpError} - Throws a 401 error if the session is not authenticated, and a 404 error if no Pods are found (only when `mandatory` is true).
  * @throws {Error} - Passes any other errors to the next middleware.
  */
-export async function getPodsMandatoryOrOptional(req: Request, res: Response, next: NextFunction, mandatory: boolean = true) {
+export async function getPodsMandatoryOrOptional(this: PodContext | undefined, req: Request, res: Response, next: NextFunction, mandatory: boolean = true) {
     try {
         if ((!res.locals.session?.info?.webId || !res.locals.session.info.isLoggedIn)) {
             if (mandatory) {
@@ -68,7 +122,21 @@ export async function getPodsMandatoryOrOptional(req: Request, res: Response, ne
             }
         }
 
-        const userPods = await getPodUrlAll(res.locals.session.info.webId); //TODO createFetchFunctionWithIds?
+        const webId: string = res.locals.session.info.webId;
+        let userPods = getSessionPods(req, this?.sessionPodsTtlSeconds ?? 3600) ?? this?.podCache?.get(webId);
+        if (!userPods?.length) {
+            const sessionFetch: typeof fetch = res.locals.session.fetch;
+            userPods = await withResilience(this?.resilience, "getPods", webId, signal =>
+                getPodUrlAll(webId, { fetch: (input, init) => sessionFetch(input, { ...init, signal }) })
+            );
+            if (userPods.length > 0) {
+                this?.podCache?.set(webId, userPods);
+            }
+        }
+        if (req.session && userPods.length > 0 && userPods !== req.session.pods) {
+            req.session.pods = userPods;
+            req.session.podsFetchedAt = new Date().toISOString();
+        }
 
         if (userPods.length === 0 && mandatory) {
             next(new HttpError(`[fetchPods] No Pods found for WebID [${res.locals.session.info.webId}].`, 404));
@@ -85,3 +153,71 @@ export async function getPodsMandatoryOrOptional(req: Request, res: Response, ne
         next(error);
     }
 }
+
+
+/**
+ * Middleware to resolve the active Pod of the request and store it in `res.locals.pod`, to be used after `getPods`.
+ * The Pod is taken from the `pod` query parameter or the `X-Pod` header (keys configurable), and otherwise from the Pod the user
+ * selected before, stored in `req.session.activePod`. A user with a single Pod doesn't need to select one.
+ * An explicitly requested Pod is stored as the user's preference.
+ *
+ * @param {Object} this - The context object that may contain the query parameter key and header name to select the Pod with.
+ * @param {Request} req - The Express request object, containing the requested Pod and the session data.
+ * @param {Response} res - The Express response object, containing the Pods of the user in `res.locals.pods`.
+ * @param {NextFunction} next - The next middleware function to call after resolving the active Pod.
+ * @throws {HttpError} - Throws a 400 error if the query parameter holds several Pods, a 404 error if the requested Pod isn't one of the user's Pods, and a 409 error if the user has several Pods and none is selected.
+ */
+export async function getActivePod(this: { podParameterKey?: string, podHeader?: string } | undefined, req: Request, res: Response, next: NextFunction) {
+    try {
+        const userPods: string[] = res.locals.pods ?? req.session?.pods ?? [];
+        if (userPods.length === 0) {
+            throw new HttpError(`[getActivePod] No Pods found for the user, the middleware getPods should be used first.`, 404);
+        }
+
+        const podParameterKey = this?.podParameterKey ?? "pod";
+        const podParameter = req.query[podParameterKey];
+        if (podParameter !== undefined && typeof podParameter !== "string") {
+            throw new HttpError(`[getActivePod] One Pod should be provided in the query parameter [${podParameterKey}].`, 400);
+        }
+
+        const requestedPod = podParameter ?? req.get(this?.podHeader ?? "X-Pod");
+        if (requestedPod) {
+            const pod = userPods.find(userPod => isSamePod(userPod, requestedPod));
+            if (!pod) {
+                throw new HttpError(`[getActivePod] Pod [${requestedPod}] is not one of the user's Pods.`, 404);
+            }
+            if (req.session) {
+                req.session.activePod = pod;
+            }
+            res.locals.pod = pod;
+            next();
+            return;
+        }
+
+        const preferredPod = req.session?.activePod && userPods.find(userPod => isSamePod(userPod, req.session.activePod!));
+        if (preferredPod) {
+            res.locals.pod = preferredPod;
+        } else if (userPods.length === 1) {
+            res.locals.pod = userPods[0];
+        } else {
+            throw new HttpError(`[getActivePod] The user has [${userPods.length}] Pods, but none is selected.`, 409);
+        }
+
+        log.debug(`[getActivePod] Active Pod is [${res.locals.pod}].`);
+
+        next();
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+function getSessionPods(req: Request, ttlSeconds: number): string[] | undefined {
+    const fetchedAt = Date.parse(req.session?.podsFetchedAt ?? "");
+    return fetchedAt + ttlSeconds * 1000 > Date.now() ? req.session.pods : undefined;
+}
+
+function isSamePod(pod: string, otherPod: string) {
+    const withSlash = (url: string) => url.endsWith("/") ? url : `${url}/`;
+    return withSlash(pod) === withSlash(otherPod);
+}
@@ -1,40 +1,207 @@
 import {Request, Response, NextFunction} from "express";
 import {HttpError} from "../http-error/http-error";
-import {turtleAsSolidDataset} from "@vito-nv/weare-core";
 import { PodService } from "@vito-nv/weare-core";
 import httpContext from "express-http-context";
-import {convertUploadedFileToFile, validateSession} from "../helper/resource-helper";
+import log from "loglevel";
+import {
+    convertUploadedFileToFile,
+    describeResourceUrlSource,
+    getAccessGrantFetch,
+    getResourceUrlSource,
+    isIfMatchSatisfied,
+    podResponseToHttpError,
+    ResourceUrlSource,
+    resolveResourceUrls,
+    validateResourceUrlSource,
+    validateSession
+} from "../helper/resource-helper";
 import {UploadedFile} from "express-fileupload";
-import {fromRdfJsDataset} from "@inrupt/solid-client";
-import {Parser, Store} from "n3";
+import {Readable, Transform} from "node:stream";
+import {pipeline} from "node:stream/promises";
+import {ReadableStream as NodeReadableStream} from "node:stream/web";
+import Busboy from "busboy";
+import {
+    createSizeLimiter,
+    STREAMED_REQUEST_HEADERS,
+    STREAMED_RESPONSE_HEADERS,
+    validateFileLimits
+} from "../helper/stream-helper";
+import {Shape, ShapeViolation, validateShape} from "../shape/shape";
+import {audited, AuditSink} from "../audit/audit";
+import {SolidRequestHandler} from "../session/response-locals";
+import {applyResourceUrlPolicy, ResourceUrlPolicy} from "../helper/resource-url-policy";
+import {ResourceCache} from "../helper/resource-cache";
+import {ResiliencePolicy, withResilience} from "../helper/resilience";
+import {createContainerAt, getDatetime, getInteger, getThing, getUrlAll, SolidDataset} from "@inrupt/solid-client";
+import {
+    bodyAsString,
+    containsBlankNode,
+    createN3Patch,
+    diffSolidDatasets,
+    getMediaType,
+    isEmptyBody,
+    parseRdf,
+    RDF_MEDIA_TYPES,
+    serialiseRdf
+} from "../helper/rdf-helper";
+
+const PATCH_MEDIA_TYPES = ["application/sparql-update", "text/n3"];
+const LDP_CONTAINS = "http://www.w3.org/ns/ldp#contains";
+const LDP_CONTAINER = "http://www.w3.org/ns/ldp#Container";
+const LDP_BASIC_CONTAINER = "http://www.w3.org/ns/ldp#BasicContainer";
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const POSIX_SIZE = "http://www.w3.org/ns/posix/stat#size";
+const DCTERMS_MODIFIED = "http://purl.org/dc/terms/modified";
+
+/**
+ * A child resource of a container, as exposed by `listContainer`.
+ */
+export interface ContainerItem {
+    url: string;
+    isContainer: boolean;
+    types: string[];
+    size?: number;
+    modified?: Date;
+}
+
+/**
+ * A page of the child resources of a container, as exposed by `listContainer`.
+ */
+export interface ContainerPage {
+    items: ContainerItem[];
+    page: number;
+    pageSize: number;
+    total: number;
+}
+
+/**
+ * The outcome of writing one file, as exposed by `writeFile`.
+ */
+export interface FileResult {
+    fileName: string;
+    url: string;
+    success: boolean;
+    error?: string;
+    rolledBack?: boolean;
+}
+
+/**
+ * Options of the resource middlewares created by `createResourceMiddleware`.
+ * Each middleware only uses the options that apply to it, e.g. `shape` is used by `getResource` and `writeResource`.
+ */
+export interface ResourceMiddlewareOptions<T = unknown> {
+    podService: PodService;
+    resourceUrl?: ResourceUrlSource; // Where the resource, file or container URL is read from, the `resourceUrl` query parameter by default.
+    urlPolicy?: ResourceUrlPolicy; // Restricts the URLs to the user's Pods or allowed origins, to the user's Pods by default.
+    fetch?: typeof fetch; // The authenticated fetch of the requestor, defaults to the fetch of the session.
+    shape?: Shape<T>;
+    usePatch?: boolean;
+    requireIfMatch?: boolean;
+    stream?: boolean;
+    fileName?: (file: UploadedFile, index: number) => string;
+    rollback?: boolean;
+    maxFileSize?: number;
+    allowedMimeTypes?: string[];
+    pageSize?: number;
+    maxPageSize?: number;
+    recursive?: boolean;
+    allowRecursive?: boolean;
+    cache?: ResourceCache; // Caches the resources and files read per user, and is invalidated by the writing middlewares.
+    resilience?: ResiliencePolicy; // Guards the calls to the pod with timeouts, retries and a circuit breaker per pod origin.
+    auditSink?: AuditSink; // Records the operations on the pods, nothing is recorded without one.
+}
+
+/**
+ * The resource middlewares created by `createResourceMiddleware`.
+ */
+export interface ResourceMiddleware {
+    getResource: SolidRequestHandler;
+    sendResource: SolidRequestHandler;
+    writeResource: SolidRequestHandler;
+    patchResource: SolidRequestHandler;
+    getFile: SolidRequestHandler;
+    writeFile: SolidRequestHandler;
+    listContainer: SolidRequestHandler;
+    createContainer: SolidRequestHandler;
+    deleteResource: SolidRequestHandler;
+}
+
+/**
+ * Creates the resource middlewares with the given options, as typed request handlers instead of functions to bind.
+ *
+ * @param {ResourceMiddlewareOptions} options - The pod service, the resource URL source and the options of the individual middlewares.
+ * @returns {ResourceMiddleware} The resource middlewares.
+ */
+export function createResourceMiddleware<T = unknown>(options: ResourceMiddlewareOptions<T>): ResourceMiddleware {
+    const context = { ...options, resourceUrl: validateResourceUrlSource(options.resourceUrl ?? { query: "resourceUrl" }) };
+    return {
+        getResource: getResource.bind(context),
+        sendResource: sendResource,
+        writeResource: writeResource.bind(context),
+        patchResource: patchResource.bind(context),
+        getFile: getFile.bind(context),
+        writeFile: writeFile.bind(context),
+        listContainer: listContainer.bind(context),
+        createContainer: createContainer.bind(context),
+        deleteResource: deleteResource.bind(context)
+    };
+}
 
 /**
  * Middleware to retrieve a resource from the user's pod and store the SolidDataset in `res.locals`.
  * Validates the session, extracts the resource URL from the query parameters, and retrieves the dataset.
  * The retrieved dataset is exposed to subsequent middlewares via `res.locals.solidDataset`.
+ * With a `shape`, the dataset is validated against it and the nodes are exposed as typed objects via `res.locals.shapedObjects`.
+ * With a `cache`, the dataset is read from the cache after revalidating it against the pod, and the cached resource is exposed via
+ * `res.locals.cachedResource`, so `sendResource` can answer a conditional request of which the resource is unchanged with a 304.
  *
- * @param {Object} this - The context object containing the resource URL parameter key and pod service instance.
+ * @param {Object} this - The context object containing the resource URL parameter key or source and URL policy, pod service instance and optionally a shape, a cache, the requestor's authenticated fetch and a resilience policy.
  * @param {Request} req - The Express request object, containing session and query parameters.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function to call after retrieving the resource.
- * @throws {HttpError} - Throws a 400 error if the resource URL is missing or invalid.
+ * @throws {HttpError} - Throws a 400 error if the resource URL is missing or invalid, and a 502 error if the dataset doesn't conform to the shape.
  * @throws {Error} - Passes any other errors to the next middleware.
  */
-export async function getResource(this: { resourceUrlParameterKey: string, podService: PodService }, req: Request, res: Response, next: NextFunction) {
+export async function getResource<T>(this: { resourceUrlParameterKey?: string, resourceUrl?: ResourceUrlSource, urlPolicy?: ResourceUrlPolicy, podService: PodService, shape?: Shape<T>, cache?: ResourceCache, fetch?: typeof fetch, resilience?: ResiliencePolicy, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
     try {
         validateSession(req, res);
 
-        const resourceIri = req.query[this.resourceUrlParameterKey];
+        const source = getResourceUrlSource(this.resourceUrl, this.resourceUrlParameterKey);
+        const [resourceIri] = resolveResourceUrls(req, res, source, this.urlPolicy);
         if (!resourceIri) {
             throw new HttpError(
-                `The middleware retrieveResource requires a resource URL to be provided as a query parameter with key [${this.resourceUrlParameterKey}].`,
+                `The middleware retrieveResource requires a resource URL to be provided ${describeResourceUrlSource(source)}.`,
                 400
             );
         }
 
         const accessGrant = JSON.parse(req.session.accessGrant!);
+        const cache = this.cache;
+        if (cache) {
+            const resource = await audited(this.auditSink, req, res, "read", resourceIri, async () =>
+                withResilience(this.resilience, "read", resourceIri, async () =>
+                    cache.fetch(res.locals.session.info.webId, resourceIri, "dataset", await getAccessGrantFetch(new URL(resourceIri), req, res, this.fetch), () =>
+                        this.podService.getSolidDataset(new URL(resourceIri), accessGrant, httpContext.get('correlationId'))
+                    )
+                )
+            );
+            res.locals.solidDataset = resource.solidDataset;
+            res.locals.cachedResource = resource;
+        } else {
+            res.locals.solidDataset = await audited(this.auditSink, req, res, "read", resourceIri, () =>
+                withResilience(this.resilience, "read", resourceIri, () =>
+                    this.podService.getSolidDataset(new URL(resourceIri), accessGrant, httpContext.get('correlationId'))
+                )
+            );
+        }
 
-        res.locals.solidDataset = await this.podService.getSolidDataset(new URL(resourceIri as string), accessGrant, httpContext.get('correlationId'));
+        if (this.shape) {
+            const {objects, violations} = validateShape(res.locals.solidDataset, this.shape, resourceIri);
+            if (violations.length > 0) {
+                throw shapeViolationsToHttpError(violations, `The resource [${resourceIri}] in the pod`, 502);
+            }
+            res.locals.shapedObjects = objects;
+        }
 
         next();
     } catch (error) {
@@ -44,32 +211,115 @@ export async function getResource(this: { resourceUrlParameterKey: string, podSe
 }
 
 /**
- * Middleware to delete and write a SolidDataset to the user's pod.
- * Validates the session, retrieves the resource URL from the query parameters, deletes the existing dataset, and writes the new dataset from the request body.
+ * Middleware to send the SolidDataset in `res.locals.solidDataset`, typically retrieved by `getResource`, to the client.
+ * The dataset is serialised to Turtle, N-Triples, N-Quads, TriG or JSON-LD according to the `Accept` header of the request.
+ * If it is the dataset read from the cache by `getResource`, its validators are sent as well, the ETag as weak ETag as the dataset
+ * is reserialised, and a conditional request of which the resource is unchanged is answered with a 304.
+ *
+ * @param {Request} req - The Express request object, containing the `Accept` and conditional request headers.
+ * @param {Response} res - The Express response object, containing the SolidDataset in `res.locals.solidDataset`.
+ * @param {NextFunction} next - The next middleware function, only called on errors.
+ * @throws {HttpError} - Throws a 406 error if none of the accepted media types is supported.
+ * @throws {Error} - Passes any other errors to the next middleware.
+ */
+export async function sendResource(req: Request, res: Response, next: NextFunction) {
+    try {
+        if (!res.locals.solidDataset) {
+            throw new HttpError(`The middleware sendResource requires a SolidDataset in res.locals.solidDataset.`, 500);
+        }
+
+        const mediaType = req.accepts(Object.keys(RDF_MEDIA_TYPES));
+        if (!mediaType) {
+            throw new HttpError(
+                `None of the accepted media types is supported, supported are [${Object.keys(RDF_MEDIA_TYPES).join(", ")}].`,
+                406
+            );
+        }
+
+        res.vary("Accept");
+        // The validators of a cached resource only apply when the dataset is sent as read, and weakly, as it is reserialised.
+        const cachedResource = res.locals.cachedResource;
+        if (cachedResource?.solidDataset && cachedResource.solidDataset === res.locals.solidDataset &&
+            sendNotModified(req, res, cachedResource.etag && toWeakEtag(cachedResource.etag), cachedResource.lastModified)) {
+            return;
+        }
+
+        res.type(mediaType).send(await serialiseRdf(res.locals.solidDataset, mediaType));
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+/**
+ * Middleware to write a SolidDataset to the user's pod.
+ * Validates the session, retrieves the resource URL from the query parameters, and writes the new dataset from the request body.
+ * The request body can be Turtle, N-Triples, N-Quads, TriG or JSON-LD, as indicated by the `Content-Type` header (Turtle if absent).
+ * With a `shape`, the body is validated against it before anything is written, and the nodes are exposed via `res.locals.shapedObjects`.
+ * By default the existing dataset is deleted before the new one is written. With `usePatch`, only the changed triples are sent
+ * to the pod with an `If-Match` precondition, so a failing write keeps the existing data and concurrent writes result in a 412.
  *
- * @param {Object} this - The context object containing the resource URL parameter key and pod service instance.
+ * @param {Object} this - The context object containing the resource URL parameter key or source and URL policy, pod service instance and optionally a shape, `usePatch`, the requestor's authenticated fetch and a resilience policy.
  * @param {Request} req - The Express request object, containing the body and query parameters.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function to call after writing the dataset.
- * @throws {HttpError} - Throws a 400 error if the resource URL is missing or invalid.
+ * @throws {HttpError} - Throws a 400 error if the resource URL or body is missing or invalid, a 415 error if the body media type is not supported, a 422 error listing the violations if the body doesn't conform to the shape, and a 412 error if the resource was modified concurrently.
  * @throws {Error} - Passes any other errors to the next middleware.
  */
-export async function writeResource(this: { resourceUrlParameterKey: string, podService: PodService }, req: Request, res: Response, next: NextFunction) {
+export async function writeResource<T>(this: { resourceUrlParameterKey?: string, resourceUrl?: ResourceUrlSource, urlPolicy?: ResourceUrlPolicy, podService: PodService, shape?: Shape<T>, usePatch?: boolean, cache?: ResourceCache, fetch?: typeof fetch, resilience?: ResiliencePolicy, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
     try {
         validateSession(req, res);
 
-        const resourceUrl = req.query[this.resourceUrlParameterKey];
+        const source = getResourceUrlSource(this.resourceUrl, this.resourceUrlParameterKey);
+        const [resourceUrl] = resolveResourceUrls(req, res, source, this.urlPolicy);
         if (!resourceUrl) {
             throw new HttpError(
-                `The middleware retrieveResource requires a resource URL to be provided as a query parameter with key [${this.resourceUrlParameterKey}].`,
+                `The middleware writeResource requires a resource URL to be provided ${describeResourceUrlSource(source)}.`,
                 400
             );
         }
 
+        // Without this check, a request of which the body wasn't parsed would replace the resource with an empty one.
+        if (isEmptyBody(req.body)) {
+            throw new HttpError(
+                `The middleware writeResource requires a request body, which should be parsed with e.g. express.text() before.`,
+                400,
+                { code: "BODY_MISSING" }
+            );
+        }
+
+        const solidDataset = await parseRdf(bodyAsString(req.body), req.get("Content-Type") ?? "text/turtle", resourceUrl);
+
+        if (this.shape) {
+            const {objects, violations} = validateShape(solidDataset, this.shape, resourceUrl);
+            if (violations.length > 0) {
+                throw shapeViolationsToHttpError(violations, "The request body", 422);
+            }
+            res.locals.shapedObjects = objects;
+        }
+
+        if (this.usePatch) {
+            await audited(this.auditSink, req, res, "write", resourceUrl, () =>
+                withResilience(this.resilience, "write", resourceUrl, signal =>
+                    writeResourceConditionally(new URL(resourceUrl), solidDataset, req, res, this.fetch, signal)
+                )
+            );
+            this.cache?.invalidate(resourceUrl);
+            next();
+            return;
+        }
+
         const accessGrant = JSON.parse(req.session.accessGrant!);
 
-        await this.podService.deleteSolidDataset(new URL(resourceUrl as string), accessGrant, httpContext.get('correlationId'));
-        await this.podService.writeSolidDataset(new URL(resourceUrl as string), turtleAsSolidDataset(req.body), accessGrant, httpContext.get('correlationId'));
+        await audited(this.auditSink, req, res, "write", resourceUrl, async () => {
+            await withResilience(this.resilience, "delete", resourceUrl, () =>
+                this.podService.deleteSolidDataset(new URL(resourceUrl), accessGrant, httpContext.get('correlationId'))
+            );
+            await withResilience(this.resilience, "write", resourceUrl, () =>
+                this.podService.writeSolidDataset(new URL(resourceUrl), solidDataset, accessGrant, httpContext.get('correlationId'))
+            );
+        });
+        this.cache?.invalidate(resourceUrl);
 
         next();
     } catch (error) {
@@ -78,33 +328,229 @@ export async function writeResource(this: { resourceUrlParameterKey: string, pod
     }
 }
 
+/**
+ * Middleware to patch a resource in the user's pod with a SPARQL Update (`application/sparql-update`) or N3 Patch (`text/n3`) body.
+ * The patch is forwarded to the pod together with the `If-Match` header of the request, so a patch based on an outdated
+ * version of the resource results in a 412. The new ETag of the resource is exposed via `res.locals.etag` and the `ETag` header.
+ *
+ * @param {Object} this - The context object containing the resource URL parameter key or source and URL policy and optionally `requireIfMatch`, the requestor's authenticated fetch and a resilience policy.
+ * @param {Request} req - The Express request object, containing the patch body and query parameters.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function to call after patching the resource.
+ * @throws {HttpError} - Throws a 400 error if the resource URL or the patch is missing, a 415 error if the patch format is not supported, a 428 error if `requireIfMatch` is set and the `If-Match` header is missing, and a 412 error if the resource was modified concurrently.
+ * @throws {Error} - Passes any other errors to the next middleware.
+ */
+export async function patchResource(this: { resourceUrlParameterKey?: string, resourceUrl?: ResourceUrlSource, urlPolicy?: ResourceUrlPolicy, requireIfMatch?: boolean, cache?: ResourceCache, fetch?: typeof fetch, resilience?: ResiliencePolicy, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
+    try {
+        validateSession(req, res);
+
+        const source = getResourceUrlSource(this.resourceUrl, this.resourceUrlParameterKey);
+        const [resourceUrl] = resolveResourceUrls(req, res, source, this.urlPolicy);
+        if (!resourceUrl) {
+            throw new HttpError(
+                `The middleware patchResource requires a resource URL to be provided ${describeResourceUrlSource(source)}.`,
+                400
+            );
+        }
+
+        const mediaType = getMediaType(req.get("Content-Type") ?? "");
+        if (!PATCH_MEDIA_TYPES.includes(mediaType)) {
+            throw new HttpError(
+                `Unsupported patch media type [${mediaType}], supported are [${PATCH_MEDIA_TYPES.join(", ")}].`,
+                415
+            );
+        }
+        if (isEmptyBody(req.body)) {
+            throw new HttpError(`The middleware patchResource requires a request body, which should be parsed with e.g. express.text() before.`, 400);
+        }
+
+        const ifMatch = req.get("If-Match");
+        if (this.requireIfMatch && !ifMatch) {
+            throw new HttpError(`The middleware patchResource requires an If-Match header.`, 428);
+        }
+
+        const url = new URL(resourceUrl);
+        await audited(this.auditSink, req, res, "write", url.href, () =>
+            withResilience(this.resilience, "write", url.href, async signal => {
+                const podFetch = await getAccessGrantFetch(url, req, res, this.fetch);
+                const response = await podFetch(url.href, {
+                    method: "PATCH",
+                    headers: {"Content-Type": mediaType, ...(ifMatch ? {"If-Match": ifMatch} : {})},
+                    body: bodyAsString(req.body),
+                    signal
+                });
+                if (!response.ok) {
+                    throw podResponseToHttpError(response, "Patching the resource");
+                }
+
+                exposeEtag(res, response);
+            })
+        );
+        this.cache?.invalidate(url.href);
+
+        next();
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+/**
+ * Writes a SolidDataset to the pod without deleting it first: an N3 Patch containing only the changed triples is sent with
+ * an `If-Match` precondition, or, if the resource doesn't exist yet, it is created with an `If-None-Match` precondition.
+ * When changed triples contain blank nodes, which can't be deleted by a patch, the resource is replaced with an `If-Match` precondition.
+ */
+async function writeResourceConditionally(url: URL, solidDataset: SolidDataset, req: Request, res: Response, authFetch?: typeof fetch, signal?: AbortSignal) {
+    const accessGrantFetch = await getAccessGrantFetch(url, req, res, authFetch);
+    const podFetch: typeof fetch = (input, init) => accessGrantFetch(input, {...init, signal});
+    const ifMatch = req.get("If-Match");
+
+    const current = await podFetch(url.href, {headers: {Accept: "text/turtle"}});
+    if (current.status === 404) {
+        if (ifMatch) {
+            throw new HttpError(`Writing the resource failed, the resource [${url.href}] doesn't exist.`, 412);
+        }
+        const created = await podFetch(url.href, {
+            method: "PUT",
+            headers: {"Content-Type": "text/turtle", "If-None-Match": "*"},
+            body: await serialiseRdf(solidDataset, "text/turtle")
+        });
+        if (!created.ok) {
+            throw podResponseToHttpError(created, "Creating the resource");
+        }
+        exposeEtag(res, created);
+        return;
+    }
+    if (!current.ok) {
+        throw podResponseToHttpError(current, "Reading the resource");
+    }
+
+    const etag = current.headers.get("ETag");
+    if (ifMatch && !isIfMatchSatisfied(ifMatch, etag)) {
+        throw new HttpError(`Writing the resource failed, the resource [${url.href}] was modified in the meantime.`, 412);
+    }
+
+    const currentDataset = await parseRdf(await current.text(), current.headers.get("Content-Type") ?? "text/turtle", url.href);
+    const {deletions, insertions} = diffSolidDatasets(currentDataset, solidDataset);
+    if (deletions.length === 0 && insertions.length === 0) {
+        exposeEtag(res, current);
+        return;
+    }
+
+    const conditionHeaders: Record<string, string> = etag ? {"If-Match": etag} : {};
+    const response = containsBlankNode([...deletions, ...insertions])
+        ? await podFetch(url.href, {
+            method: "PUT",
+            headers: {"Content-Type": "text/turtle", ...conditionHeaders},
+            body: await serialiseRdf(solidDataset, "text/turtle")
+        })
+        : await podFetch(url.href, {
+            method: "PATCH",
+            headers: {"Content-Type": "text/n3", ...conditionHeaders},
+            body: createN3Patch(deletions, insertions)
+        });
+    if (!response.ok) {
+        throw podResponseToHttpError(response, "Writing the resource");
+    }
+    exposeEtag(res, response);
+}
+
+function shapeViolationsToHttpError(violations: ShapeViolation[], subject: string, statusCode: number) {
+    return new HttpError(
+        `${subject} doesn't conform to the shape: ${violations.map(violation => `[${violation.focusNode}] ${violation.path ?? ""} ${violation.message}`).join("; ")}`,
+        statusCode,
+        { code: "SHAPE_VIOLATION", extensions: { violations } }
+    );
+}
+
+/**
+ * Exposes the validators of a cached resource to the client, and answers the request with a 304 if the client's copy is still fresh.
+ */
+function sendNotModified(req: Request, res: Response, etag?: string, lastModified?: string): boolean {
+    if (etag) {
+        res.set("ETag", etag);
+    }
+    if (lastModified) {
+        res.set("Last-Modified", lastModified);
+    }
+    if (req.fresh) {
+        res.status(304).end();
+        return true;
+    }
+    return false;
+}
+
+function toWeakEtag(etag: string) {
+    return etag.startsWith("W/") ? etag : `W/${etag}`;
+}
+
+function exposeEtag(res: Response, podResponse: globalThis.Response) {
+    const etag = podResponse.headers.get("ETag");
+    if (etag) {
+        res.locals.etag = etag;
+        res.set("ETag", etag);
+    }
+}
+
 /**
  * Middleware to retrieve a file from the user's pod and store it in `res.locals`.
  * Validates the session, extracts the file URL from the query parameters, and retrieves the file.
  * The retrieved file is exposed to subsequent middlewares via `res.locals.file`.
+ * With `stream`, the file is not buffered but the response of the pod is piped straight to the client, including its
+ * Content-Type, Content-Length, ETag and Range (206) headers, and the response is ended instead of calling the next middleware.
+ * Otherwise, with a `cache`, the file is read from the cache after revalidating it against the pod, and a conditional request
+ * of which the file is unchanged is answered with a 304. The ETag and Last-Modified date of the file are exposed to the client,
+ * so a middleware that changes the file before sending it must remove them.
  *
- * @param {Object} this - The context object containing the file URL parameter key and pod service instance.
+ * @param {Object} this - The context object containing the file URL parameter key or source and URL policy, pod service instance and optionally `stream`, a cache, the requestor's authenticated fetch and a resilience policy.
  * @param {Request} req - The Express request object, containing session and query parameters.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function to call after retrieving the file.
  * @throws {HttpError} - Throws a 400 error if the file URL is missing or invalid.
  * @throws {Error} - Passes any other errors to the next middleware.
  */
-export async function getFile(this: { fileUrlParameterKey: string, podService: PodService }, req: Request, res: Response, next: NextFunction) {
+export async function getFile(this: { fileUrlParameterKey?: string, resourceUrl?: ResourceUrlSource, urlPolicy?: ResourceUrlPolicy, podService: PodService, stream?: boolean, cache?: ResourceCache, fetch?: typeof fetch, resilience?: ResiliencePolicy, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
     try {
         validateSession(req, res);
 
-        const resourceIri = req.query[this.fileUrlParameterKey];
+        const source = getResourceUrlSource(this.resourceUrl, this.fileUrlParameterKey);
+        const [resourceIri] = resolveResourceUrls(req, res, source, this.urlPolicy);
         if (!resourceIri) {
             throw new HttpError(
-                `The middleware retrieveResource requires a resource URL to be provided as a query parameter with key [${this.fileUrlParameterKey}].`,
+                `The middleware getFile requires a file URL to be provided ${describeResourceUrlSource(source)}.`,
                 400
             );
         }
 
-        const accessGrant = JSON.parse(req.session.accessGrant!);
+        if (this.stream) {
+            await audited(this.auditSink, req, res, "read", resourceIri, () =>
+                streamFileFromPod(new URL(resourceIri), req, res, this.fetch, this.resilience)
+            );
+            return;
+        }
 
-        res.locals.file = await this.podService.getFile(new URL(resourceIri as string), accessGrant, httpContext.get('correlationId'));
+        const accessGrant = JSON.parse(req.session.accessGrant!);
+        const cache = this.cache;
+        if (cache) {
+            const resource = await audited(this.auditSink, req, res, "read", resourceIri, async () =>
+                withResilience(this.resilience, "read", resourceIri, async () =>
+                    cache.fetch(res.locals.session.info.webId, resourceIri, "file", await getAccessGrantFetch(new URL(resourceIri), req, res, this.fetch), () =>
+                        this.podService.getFile(new URL(resourceIri), accessGrant, httpContext.get('correlationId'))
+                    )
+                )
+            );
+            // The file is the pod's own representation, so its validators apply to it as long as it is sent unchanged.
+            if (sendNotModified(req, res, resource.etag, resource.lastModified)) {
+                return;
+            }
+            res.locals.file = resource.file;
+        } else {
+            res.locals.file = await audited(this.auditSink, req, res, "read", resourceIri, () =>
+                withResilience(this.resilience, "read", resourceIri, () =>
+                    this.podService.getFile(new URL(resourceIri), accessGrant, httpContext.get('correlationId'))
+                )
+            );
+        }
 
         next();
     } catch (error) {
@@ -114,46 +560,494 @@ export async function getFile(this: { fileUrlParameterKey: string, podService: P
 }
 
 /**
- * Middleware to write a file to the user's pod.
- * Validates the session, extracts the file URL from the query parameters, and writes the uploaded file to the pod.
+ * Middleware to write files to the user's pod.
+ * Validates the session, extracts the file URL from the query parameters, and writes the uploaded files to the pod.
+ * A single uploaded file is written to the file URL. When multiple files are uploaded, or the file URL ends with a slash, the
+ * file URL is a target container and each file is written into it with a name determined by `fileName` (the uploaded file name
+ * by default). The file URL query parameter may be repeated to write the files to multiple containers, e.g. in different pods.
+ * A file name that doesn't resolve to a file directly in the container, or a file URL that is written more than once, is rejected.
+ * All writes are awaited and their results are exposed via `res.locals.fileResults`. If some writes fail, the written files that
+ * didn't exist before are deleted again when `rollback` is set and the request fails; otherwise it only fails when all writes failed.
+ * With `stream`, the file is not buffered: a multipart/form-data body containing one file, or any other raw body, is streamed
+ * straight to the pod. The express-fileupload middleware must not be used on the route in that case.
+ * The MIME type and size of the files can be restricted with `allowedMimeTypes` (e.g. `image/*`) and `maxFileSize` in bytes.
  *
- * @param {Object} this - The context object containing the file URL parameter key and pod service instance.
+ * @param {Object} this - The context object containing the file URL parameter key or source and URL policy, pod service instance and optionally the naming strategy, `rollback`, `stream`, the file limits, the requestor's authenticated fetch and a resilience policy.
  * @param {Request} req - The Express request object, containing files and query parameters.
  * @param {Response} res - The Express response object.
- * @param {NextFunction} next - The next middleware function to call after writing the file.
- * @throws {HttpError} - Throws a 400 error if the file URL or uploaded file is missing or invalid.
+ * @param {NextFunction} next - The next middleware function to call after writing the files.
+ * @throws {HttpError} - Throws a 400 error if the file URL, file name or uploaded file is missing or invalid, a 413 error if a file is too large and a 415 error if its MIME type isn't allowed.
  * @throws {Error} - Passes any other errors to the next middleware.
  */
-export async function writeFile(this: { fileUrlParameterKey: string, podService: PodService }, req: Request, res: Response, next: NextFunction) {
+export async function writeFile(this: {
+    fileUrlParameterKey?: string,
+    resourceUrl?: ResourceUrlSource,
+    urlPolicy?: ResourceUrlPolicy,
+    podService: PodService,
+    fileName?: (file: UploadedFile, index: number) => string,
+    rollback?: boolean,
+    stream?: boolean,
+    maxFileSize?: number,
+    allowedMimeTypes?: string[],
+    cache?: ResourceCache,
+    fetch?: typeof fetch,
+    resilience?: ResiliencePolicy,
+    auditSink?: AuditSink
+}, req: Request, res: Response, next: NextFunction) {
     try {
         validateSession(req, res);
-        const fileUrl = req.query[this.fileUrlParameterKey];
-        if (!fileUrl) {
+        const source = getResourceUrlSource(this.resourceUrl, this.fileUrlParameterKey);
+        const targetUrls = resolveResourceUrls(req, res, source, this.urlPolicy);
+        if (targetUrls.length === 0) {
             throw new HttpError(
-                `The middleware writeFile requires a file URL to be provided as a query parameter with key [${this.fileUrlParameterKey}].`,
+                `The middleware writeFile requires a file URL to be provided ${describeResourceUrlSource(source)}.`,
                 400
             );
         }
+
+        if (this.stream) {
+            if (targetUrls.length != 1) {
+                throw new HttpError(`One file URL should be provided when streaming a file.`, 400);
+            }
+            // The request body can only be streamed once, so a failed or timed out upload isn't retried.
+            await audited(this.auditSink, req, res, "write", targetUrls[0], () =>
+                withResilience(this.resilience, "write", targetUrls[0], signal =>
+                    streamFileToPod(new URL(targetUrls[0]), req, res, this, signal),
+                    { replayable: false }
+                )
+            );
+            this.cache?.invalidate(targetUrls[0]);
+            next();
+            return;
+        }
+
         if(!req.files)
             throw new HttpError(
                 `No files are uploaded, or the express-fileupload module should be included.`,
                 400
             );
 
-        if(Object.values(req.files).length != 1 || Array.isArray(Object.values(req.files)[0])) {
+        const uploadedFiles = Object.values(req.files).flat();
+        if (uploadedFiles.length === 0) {
+            throw new HttpError(
+                `At least one file should be uploaded.`,
+                400
+            );
+        }
+
+        const toContainers = uploadedFiles.length > 1 || targetUrls.length > 1 || targetUrls[0].endsWith("/");
+        if (toContainers && targetUrls.some(targetUrl => !targetUrl.endsWith("/"))) {
+            throw new HttpError(
+                `When uploading multiple files or to multiple locations, the file URLs should be containers ending with a slash.`,
+                400
+            );
+        }
+
+        uploadedFiles.forEach(uploadedFile => validateFileLimits(uploadedFile.mimetype, uploadedFile.size, this));
+
+        const accessGrant = JSON.parse(req.session.accessGrant!);
+        const fileName = this.fileName ?? ((file: UploadedFile) => encodeURIComponent(file.name));
+
+        const writes = targetUrls.flatMap(targetUrl => uploadedFiles.map((uploadedFile, index) => ({
+            fileName: uploadedFile.name,
+            url: toContainers
+                ? applyResourceUrlPolicy(toChildUrl(fileName(uploadedFile, index), targetUrl), req, res, this.urlPolicy)
+                : targetUrl,
+            file: uploadedFile
+        })));
+
+        const duplicateUrls = writes.map(write => write.url).filter((url, index, urls) => urls.indexOf(url) !== index);
+        if (duplicateUrls.length > 0) {
+            throw new HttpError(`Multiple files would be written to [${[...new Set(duplicateUrls)].join(", ")}].`, 400);
+        }
+
+        // Only the files that didn't exist before are rolled back, the resources that are overwritten can't be restored.
+        const existingUrls = this.rollback
+            ? await findExistingFiles(writes.map(write => write.url), this.podService, accessGrant, this.resilience)
+            : new Set<string>();
+
+        const outcomes = await Promise.allSettled(writes.map(write =>
+            audited(this.auditSink, req, res, "write", write.url, () =>
+                withResilience(this.resilience, "write", write.url, () =>
+                    this.podService.writeFile(new URL(write.url), convertUploadedFileToFile(write.file), accessGrant, httpContext.get('correlationId'))
+                )
+            )
+        ));
+
+        writes.forEach(write => this.cache?.invalidate(write.url));
+
+        res.locals.fileResults = writes.map((write, index) => ({
+            fileName: write.fileName,
+            url: write.url,
+            success: outcomes[index].status === "fulfilled",
+            error: outcomes[index].status === "rejected" ? String((outcomes[index] as PromiseRejectedResult).reason) : undefined
+        }));
+
+        const failures = outcomes.filter(outcome => outcome.status === "rejected") as PromiseRejectedResult[];
+        if (failures.length > 0 && (this.rollback || failures.length === outcomes.length)) {
+            if (this.rollback) {
+                await rollbackWrittenFiles(req, res, this.podService, res.locals.fileResults, existingUrls, accessGrant, this.resilience, this.auditSink);
+            }
             throw new HttpError(
-                `One file should be uploaded.`,
+                `Writing [${failures.length}] of [${outcomes.length}] files failed${this.rollback ? ", the written files were rolled back" : ""}.`,
+                failures[0].reason instanceof HttpError ? failures[0].reason.statusCode : 500,
+                { cause: failures[0].reason }
+            );
+        }
+
+        next();
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+/**
+ * Resolves the name of a file against the container it is written into, which it may not escape.
+ */
+function toChildUrl(fileName: string, containerUrl: string): string {
+    const url = new URL(fileName, containerUrl).href;
+    const childPath = url.slice(containerUrl.length);
+    if (!url.startsWith(containerUrl) || childPath.length === 0 || childPath.includes("/")) {
+        throw new HttpError(`The file name [${fileName}] doesn't resolve to a file in the container [${containerUrl}].`, 400);
+    }
+    return url;
+}
+
+/**
+ * Determines which of the files exist in the pod. A file of which the existence can't be determined is considered to exist.
+ */
+async function findExistingFiles(urls: string[], podService: PodService, accessGrant: Parameters<PodService["getFile"]>[1], resilience?: ResiliencePolicy): Promise<Set<string>> {
+    const existing = await Promise.all(urls.map(url =>
+        withResilience(resilience, "read", url, () => podService.getFile(new URL(url), accessGrant, httpContext.get('correlationId')))
+            .then(() => true, error => !(error instanceof HttpError && error.statusCode === 404))
+    ));
+    return new Set(urls.filter((url, index) => existing[index]));
+}
+
+/**
+ * Deletes the files that were written successfully and didn't exist before, marking them as rolled back in the file results.
+ */
+async function rollbackWrittenFiles(req: Request, res: Response, podService: PodService, fileResults: FileResult[], existingUrls: Set<string>, accessGrant: Parameters<PodService["deleteSolidDataset"]>[1], resilience?: ResiliencePolicy, auditSink?: AuditSink) {
+    for (const fileResult of fileResults.filter(result => result.success)) {
+        if (existingUrls.has(fileResult.url)) {
+            log.warn(`[writeFile] Not rolling back file [${fileResult.url}], which overwrote an existing resource.`);
+            fileResult.rolledBack = false;
+            continue;
+        }
+        try {
+            await audited(auditSink, req, res, "delete", fileResult.url, () =>
+                withResilience(resilience, "delete", fileResult.url, () =>
+                    podService.deleteSolidDataset(new URL(fileResult.url), accessGrant, httpContext.get('correlationId'))
+                )
+            );
+            fileResult.rolledBack = true;
+        } catch (error) {
+            log.error(`[writeFile] Rolling back file [${fileResult.url}] failed.\n${error}`);
+            fileResult.rolledBack = false;
+        }
+    }
+}
+
+/**
+ * Pipes a file from the pod to the client, forwarding the Range and conditional request headers to the pod.
+ * Only requesting the file is guarded by the resilience policy, relaying it takes as long as the client needs.
+ */
+async function streamFileFromPod(url: URL, req: Request, res: Response, authFetch?: typeof fetch, resilience?: ResiliencePolicy) {
+    // Ask for the file as stored, so the Content-Length and Content-Range of the pod match the relayed bytes.
+    const headers: Record<string, string> = {"Accept-Encoding": "identity"};
+    for (const header of STREAMED_REQUEST_HEADERS) {
+        const value = req.get(header);
+        if (value) {
+            headers[header] = value;
+        }
+    }
+
+    const response = await withResilience(resilience, "read", url.href, async signal => {
+        const podFetch = await getAccessGrantFetch(url, req, res, authFetch);
+        const podResponse = await podFetch(url.href, {method: req.method === "HEAD" ? "HEAD" : "GET", headers, signal});
+        if (!podResponse.ok && podResponse.status !== 304 && podResponse.status !== 416) {
+            throw podResponseToHttpError(podResponse, "Reading the file");
+        }
+        return podResponse;
+    });
+
+    res.status(response.status);
+    for (const header of STREAMED_RESPONSE_HEADERS) {
+        const value = response.headers.get(header);
+        if (value) {
+            res.set(header, value);
+        }
+    }
+
+    if (!response.body || response.status === 304 || req.method === "HEAD") {
+        res.end();
+        return;
+    }
+    await pipeline(Readable.fromWeb(response.body as NodeReadableStream), res);
+}
+
+/**
+ * Streams the file in the request body to the pod, either the single file of a multipart/form-data body or the raw body.
+ * The upload to the pod is aborted by the signal, e.g. when it times out.
+ */
+async function streamFileToPod(url: URL, req: Request, res: Response, options: { maxFileSize?: number, allowedMimeTypes?: string[], fetch?: typeof fetch }, signal?: AbortSignal) {
+    const podFetch = await getAccessGrantFetch(url, req, res, options.fetch);
+    const contentType = req.get("Content-Type") ?? "application/octet-stream";
+
+    if (getMediaType(contentType) !== "multipart/form-data") {
+        validateFileLimits(contentType, req.get("Content-Length") ? Number(req.get("Content-Length")) : undefined, options);
+        await uploadStream(podFetch, url, req, contentType, options.maxFileSize, signal);
+        return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        const busboy = Busboy({headers: req.headers, limits: {files: 1}});
+        let upload: Promise<void> | undefined;
+        // The upload to the pod is only ended once the whole body is parsed, so the file isn't written if the body turns out invalid.
+        let endBody!: (error?: unknown) => void;
+        const bodyParsed = new Promise<void>((resolveBody, rejectBody) => {
+            endBody = error => error ? rejectBody(error) : resolveBody();
+        });
+        bodyParsed.catch(() => undefined);
+        const fail = (error: unknown) => {
+            endBody(error);
+            reject(error);
+        };
+
+        busboy.on("file", (name, file, info) => {
+            try {
+                validateFileLimits(info.mimeType, undefined, options);
+            } catch (error) {
+                file.resume();
+                fail(error);
+                return;
+            }
+            upload = uploadStream(podFetch, url, file, info.mimeType, options.maxFileSize, signal, bodyParsed);
+            upload.catch(reject);
+        });
+        busboy.on("filesLimit", () => fail(new HttpError(`One file should be uploaded.`, 400)));
+        busboy.on("error", fail);
+        busboy.on("close", () => {
+            endBody();
+            return upload ? upload.then(resolve, reject) : reject(new HttpError(`No file is uploaded.`, 400));
+        });
+
+        req.pipe(busboy);
+    });
+}
+
+/**
+ * Streams a file to the pod, failing with a 413 error once it exceeds the maximum size.
+ * With `bodyParsed`, the upload is only ended once it resolves, and fails if it rejects.
+ */
+async function uploadStream(podFetch: typeof fetch, url: URL, stream: Readable, mimeType: string, maxFileSize?: number, signal?: AbortSignal, bodyParsed?: Promise<void>) {
+    const limiter = createSizeLimiter(maxFileSize);
+    const body = new Transform({
+        transform: (chunk, encoding, callback) => callback(null, chunk),
+        flush: callback => {
+            (bodyParsed ?? Promise.resolve()).then(() => callback(), callback);
+        }
+    });
+    let streamError: unknown;
+    const piped = pipeline(stream, limiter, body).catch(error => { streamError = error; });
+
+    let response;
+    try {
+        response = await podFetch(url.href, {
+            method: "PUT",
+            headers: {"Content-Type": mimeType},
+            body: Readable.toWeb(body) as unknown as ReadableStream,
+            duplex: "half",
+            signal
+        } as RequestInit);
+    } catch (error) {
+        await piped;
+        throw signal?.aborted ? error : streamError ?? error;
+    }
+    await piped;
+    if (streamError) {
+        throw streamError;
+    }
+    if (!response.ok) {
+        throw podResponseToHttpError(response, "Writing the file");
+    }
+}
+
+/**
+ * Middleware to list the child resources of a container in the user's pod and store them in `res.locals`.
+ * Validates the session, extracts the container URL from the query parameters, and retrieves the container.
+ * The children, with their type, size and modified date as far as reported by the pod, are exposed via `res.locals.containerItems`
+ * as a page `{ items, page, pageSize, total }`. The page and page size are read from the `page` and `pageSize` query parameters.
+ *
+ * @param {Object} this - The context object containing the container URL parameter key or source and URL policy, pod service instance and optionally the default and maximum page size and a resilience policy.
+ * @param {Request} req - The Express request object, containing session and query parameters.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function to call after listing the container.
+ * @throws {HttpError} - Throws a 400 error if the container URL is missing or is not a container, or the paging parameters are invalid.
+ * @throws {Error} - Passes any other errors to the next middleware.
+ */
+export async function listContainer(this: { containerUrlParameterKey?: string, resourceUrl?: ResourceUrlSource, urlPolicy?: ResourceUrlPolicy, podService: PodService, pageSize?: number, maxPageSize?: number, resilience?: ResiliencePolicy, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
+    try {
+        validateSession(req, res);
+
+        const source = getResourceUrlSource(this.resourceUrl, this.containerUrlParameterKey);
+        const [containerUrl] = resolveResourceUrls(req, res, source, this.urlPolicy);
+        if (!containerUrl || !containerUrl.endsWith("/")) {
+            throw new HttpError(
+                `The middleware listContainer requires a container URL, ending with a slash, to be provided ${describeResourceUrlSource(source)}.`,
                 400
             );
         }
 
+        const page = req.query.page ? Number(req.query.page) : 1;
+        const pageSize = req.query.pageSize ? Number(req.query.pageSize) : this.pageSize ?? 50;
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > (this.maxPageSize ?? 500)) {
+            throw new HttpError(`The page and page size should be positive integers, with a page size of at most [${this.maxPageSize ?? 500}].`, 400);
+        }
+
         const accessGrant = JSON.parse(req.session.accessGrant!);
 
-        this.podService.writeFile(new URL(fileUrl as string), convertUploadedFileToFile(Object.values(req.files)[0] as UploadedFile), accessGrant, httpContext.get('correlationId'));
+        const container: SolidDataset = await audited(this.auditSink, req, res, "read", containerUrl, () =>
+            withResilience(this.resilience, "read", containerUrl, () =>
+                this.podService.getSolidDataset(new URL(containerUrl), accessGrant, httpContext.get('correlationId'))
+            )
+        );
+        const items = getContainerItems(container, containerUrl);
+
+        res.locals.containerItems = {
+            items: items.slice((page - 1) * pageSize, page * pageSize),
+            page,
+            pageSize,
+            total: items.length
+        };
 
         next();
     } catch (error) {
         // A general error catcher which will, in turn, call the ExpressJS error handler.
         next(error);
     }
+}
+
+/**
+ * Middleware to create a container in the user's pod.
+ * Validates the session, extracts the container URL from the query parameters, and creates the container, failing if it already exists.
+ * The URL of the created container is exposed via `res.locals.containerUrl`.
+ *
+ * @param {Object} this - The context object containing the container URL parameter key or source and URL policy and optionally the requestor's authenticated fetch.
+ * @param {Request} req - The Express request object, containing session and query parameters.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function to call after creating the container.
+ * @throws {HttpError} - Throws a 400 error if the container URL is missing or doesn't end with a slash.
+ * @throws {Error} - Passes any other errors to the next middleware.
+ */
+export async function createContainer(this: { containerUrlParameterKey?: string, resourceUrl?: ResourceUrlSource, urlPolicy?: ResourceUrlPolicy, cache?: ResourceCache, fetch?: typeof fetch, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
+    try {
+        validateSession(req, res);
+
+        const source = getResourceUrlSource(this.resourceUrl, this.containerUrlParameterKey);
+        const [containerUrl] = resolveResourceUrls(req, res, source, this.urlPolicy);
+        if (!containerUrl || !containerUrl.endsWith("/")) {
+            throw new HttpError(
+                `The middleware createContainer requires a container URL, ending with a slash, to be provided ${describeResourceUrlSource(source)}.`,
+                400
+            );
+        }
+
+        const url = new URL(containerUrl);
+        await audited(this.auditSink, req, res, "write", url.href, async () =>
+            createContainerAt(url.href, { fetch: await getAccessGrantFetch(url, req, res, this.fetch) })
+        );
+
+        this.cache?.invalidate(url.href);
+        res.locals.containerUrl = url.href;
+
+        next();
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+/**
+ * Middleware to delete a resource or container from the user's pod.
+ * Validates the session, extracts the resource URL from the query parameters, and deletes the resource.
+ * A container can only be deleted when it is empty, unless `recursive` is set in the context or `recursive=true` is passed as
+ * query parameter (when allowed by `allowRecursive`), in which case all contained resources are deleted first, depth-first.
+ * Only the listed children of which the URL lies within the container are deleted.
+ *
+ * @param {Object} this - The context object containing the resource URL parameter key or source and URL policy, pod service instance and optionally the recursive options and a resilience policy.
+ * @param {Request} req - The Express request object, containing session and query parameters.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function to call after deleting the resource.
+ * @throws {HttpError} - Throws a 400 error if the resource URL is missing.
+ * @throws {Error} - Passes any other errors to the next middleware.
+ */
+export async function deleteResource(this: { resourceUrlParameterKey?: string, resourceUrl?: ResourceUrlSource, urlPolicy?: ResourceUrlPolicy, podService: PodService, recursive?: boolean, allowRecursive?: boolean, cache?: ResourceCache, resilience?: ResiliencePolicy, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
+    try {
+        validateSession(req, res);
+
+        const source = getResourceUrlSource(this.resourceUrl, this.resourceUrlParameterKey);
+        const [resourceUrl] = resolveResourceUrls(req, res, source, this.urlPolicy);
+        if (!resourceUrl) {
+            throw new HttpError(
+                `The middleware deleteResource requires a resource URL to be provided ${describeResourceUrlSource(source)}.`,
+                400
+            );
+        }
+
+        const recursive = this.recursive || (this.allowRecursive && req.query.recursive === "true");
+        const accessGrant = JSON.parse(req.session.accessGrant!);
+
+        const deleteRecursively = async (url: string): Promise<void> => {
+            if (recursive && url.endsWith("/")) {
+                const container: SolidDataset = await audited(this.auditSink, req, res, "read", url, () =>
+                    withResilience(this.resilience, "read", url, () =>
+                        this.podService.getSolidDataset(new URL(url), accessGrant, httpContext.get('correlationId'))
+                    )
+                );
+                for (const item of getContainerItems(container, url)) {
+                    // Only resources in the container are followed, so a listing can't lead the deletion elsewhere or into a loop.
+                    if (!item.url.startsWith(url) || item.url === url) {
+                        log.warn(`[deleteResource] Skipping [${item.url}], listed by container [${url}] but not contained in it.`);
+                        continue;
+                    }
+                    await deleteRecursively(applyResourceUrlPolicy(item.url, req, res, this.urlPolicy));
+                }
+            }
+            await audited(this.auditSink, req, res, "delete", url, () =>
+                withResilience(this.resilience, "delete", url, () =>
+                    this.podService.deleteSolidDataset(new URL(url), accessGrant, httpContext.get('correlationId'))
+                )
+            );
+            this.cache?.invalidate(url);
+        };
+        await deleteRecursively(new URL(resourceUrl).href);
+
+        next();
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+/**
+ * Reads the child resources of a container from its SolidDataset, sorted by URL.
+ */
+function getContainerItems(container: SolidDataset, containerUrl: string): ContainerItem[] {
+    const containerThing = getThing(container, new URL(containerUrl).href);
+    const childUrls = containerThing ? getUrlAll(containerThing, LDP_CONTAINS) : [];
+
+    return childUrls.sort().map(childUrl => {
+        const thing = getThing(container, childUrl);
+        const url = new URL(childUrl).href;
+        const types = thing ? getUrlAll(thing, RDF_TYPE) : [];
+        return {
+            url,
+            isContainer: url.endsWith("/") || types.includes(LDP_CONTAINER) || types.includes(LDP_BASIC_CONTAINER),
+            types,
+            size: (thing && getInteger(thing, POSIX_SIZE)) ?? undefined,
+            modified: (thing && getDatetime(thing, DCTERMS_MODIFIED)) ?? undefined
+        };
+    });
 }
\ No newline at end of file
@@ -1,19 +1,55 @@
-import {Request, Response, NextFunction} from "express";
-import {getSessionFromStorage, IStorage} from "@inrupt/solid-client-authn-node";
-import {getSessionFromStorageWrapper} from "../helper/session-helper";
+import {Request, Response, NextFunction, Router} from "express";
+import {getSessionFromStorage, IStorage, Session} from "@inrupt/solid-client-authn-node";
+import {getPodUrlAll} from "@inrupt/solid-client";
+import log from "loglevel";
+import httpContext from "express-http-context";
+import {getSessionFromStorageWrapper, isRedirectUrlAllowed, SessionFactory} from "../helper/session-helper";
+import {HttpError} from "../http-error/http-error";
+import {SessionLock} from "../session/session-lock";
+import {SolidRequestHandler} from "../session/response-locals";
+import {NotificationRelay} from "../notification/notification-relay";
+
+/**
+ * The context object of the session middlewares, and the options of `createSessionMiddleware`.
+ */
+export type SessionContext = {
+    storage?: IStorage,
+    sessionLock?: SessionLock, // Coordinates token refreshes, use a `StorageSessionLock` when running several replicas.
+    onNewRefreshToken?: (newToken: string) => unknown,
+    sessionFactory?: SessionFactory // Restores the sessions instead of `getSessionFromStorage`, e.g. the `sessionFactory` of a `TestSessionStorage`.
+};
+
+/**
+ * Options for the Solid OIDC authentication router.
+ */
+export interface SolidAuthRouterOptions {
+    oidcIssuer: string; // The Solid identity provider to log in with.
+    baseUrl: string; // The public base URL of the application, used to construct the callback URL.
+    clientId?: string;
+    clientSecret?: string;
+    clientName?: string;
+    storage?: IStorage;
+    allowedRedirectOrigins?: string[]; // Origins to which absolute redirect URLs may point, relative paths are always allowed.
+    defaultRedirectUrl?: string;
+    postLogoutRedirectUrl?: string;
+    loginPath?: string;
+    callbackPath?: string;
+    logoutPath?: string;
+    notificationRelay?: NotificationRelay; // Its event streams and subscriptions of the session are closed on logout.
+}
 
 /**
  * Middleware to fetch the session from storage and expose it to the next middleware.
  * The session must be authenticated; otherwise, an error will be thrown.
  * This middleware can be reused for all routes requiring authentication.
  *
- * @param {Object} this - The context object that may contain a custom storage implementation.
+ * @param {Object} this - The context object that may contain a custom storage implementation, session lock, refresh token callback and session factory.
  * @param {Request} req - The Express request object, containing session data.
- * @param {Response} res - The Express response object, used to send an error response if the session is not authenticated.
+ * @param {Response} res - The Express response object, used to expose the session.
  * @param {NextFunction} next - The next middleware function to call if the session is valid.
  * @returns {Promise<void>} - A Promise that resolves when the session is successfully validated.
  */
-export async function getSession(this: { storage?: IStorage }, req: Request, res: Response, next: NextFunction) {
+export async function getSession(this: SessionContext, req: Request, res: Response, next: NextFunction) {
     return getSessionMandatoryOrOptional.bind(this)(req, res, next);
 }
 
@@ -21,13 +57,13 @@ export async function getSession(this: { storage?: IStorage }, req: Request, res
  * Middleware alias for `getSession`, ensuring that the session is mandatory and authenticated.
  * This can be used in routes where an authenticated session is required.
  *
- * @param {Object} this - The context object that may contain a custom storage implementation.
+ * @param {Object} this - The context object that may contain a custom storage implementation, session lock, refresh token callback and session factory.
  * @param {Request} req - The Express request object, containing session data.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function to call if the session is valid.
  * @returns {Promise<void>} - A Promise that resolves when the session is successfully validated.
  */
-export async function getSessionMandatory(this: { storage?: IStorage }, req: Request, res: Response, next: NextFunction) {
+export async function getSessionMandatory(this: SessionContext, req: Request, res: Response, next: NextFunction) {
     return getSession.bind(this)(req, res, next);
 }
 
@@ -35,13 +71,13 @@ export async function getSessionMandatory(this: { storage?: IStorage }, req: Req
  * Middleware that attempts to fetch the session from storage, but does not require an authenticated session.
  * This can be used in routes where the session is optional but may provide additional context if available.
  *
- * @param {Object} this - The context object that may contain a custom storage implementation.
+ * @param {Object} this - The context object that may contain a custom storage implementation, session lock, refresh token callback and session factory.
  * @param {Request} req - The Express request object, containing session data.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function to call, whether the session is valid or not.
  * @returns {Promise<void>} - A Promise that resolves after attempting to fetch the session.
  */
-export async function getSessionOptional(this: { storage?: IStorage }, req: Request, res: Response, next: NextFunction) {
+export async function getSessionOptional(this: SessionContext, req: Request, res: Response, next: NextFunction) {
     return getSessionMandatoryOrOptional.bind(this)(req, res, next, false);
 }
 
@@ -50,15 +86,15 @@ export async function getSessionOptional(this: { storage?: IStorage }, req: Requ
  * This is not exported and is used internally by `getSession`, `getSessionMandatory`, and `getSessionOptional`.
  * It fetches the session from storage and validates it if `mandatory` is true.
  *
- * @param {Object} this - The context object that may contain a custom storage implementation.
+ * @param {Object} this - The context object that may contain a custom storage implementation, session lock, refresh token callback and session factory.
  * @param {Request} req - The Express request object, containing session data.
- * @param {Response} res - The Express response object, used to send error responses if validation fails.
- * @param {NextFunction} next - The next middleware function to call after validation.
+ * @param {Response} res - The Express response object, used to expose the session.
+ * @param {NextFunction} next - The next middleware function to call after validation, or with a 401 `HttpError` if the session is invalid.
  * @param {boolean} [mandatory=true] - Indicates whether an authenticated session is mandatory.
  * @returns {Promise<void>} - A Promise that resolves after session validation or returns an error if the session is invalid.
  */
 async function getSessionMandatoryOrOptional(
-    this: { storage?: IStorage },
+    this: SessionContext,
     req: Request,
     res: Response,
     next: NextFunction,
@@ -67,7 +103,7 @@ async function getSessionMandatoryOrOptional(
     try {
         if (!req.session?.solidSid) {
             if(mandatory) {
-                res.status(401).send("Unauthorized");
+                next(new HttpError("[getSession] No Solid session id found in session.", 401, { code: "SESSION_MISSING", detail: "Unauthorized" }));
                 return;
             } else {
                 next();
@@ -77,11 +113,15 @@ async function getSessionMandatoryOrOptional(
 
         res.locals.session = await getSessionFromStorageWrapper(
             req.session.solidSid!,
-            this?.storage as IStorage | undefined
+            this?.storage as IStorage | undefined,
+            this?.onNewRefreshToken,
+            { lock: this?.sessionLock, sessionFactory: this?.sessionFactory }
         ).catch(() => { /* ignore error, handled below */ });
+        httpContext.set("sessionId", req.session.solidSid);
+        httpContext.set("webId", res.locals.session?.info?.webId);
 
         if (mandatory && (!res.locals.session?.info?.webId || !res.locals.session?.info?.isLoggedIn)) {
-            res.status(401).send("Unauthorized");
+            next(new HttpError(`[getSession] Solid session [${req.session.solidSid}] is not authenticated.`, 401, { code: "SESSION_NOT_AUTHENTICATED", detail: "Unauthorized" }));
             return;
         }
 
@@ -91,4 +131,141 @@ async function getSessionMandatoryOrOptional(
         // A general error catcher which will, in turn, call the ExpressJS error handler.
         next(error);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * The session middlewares created by `createSessionMiddleware`.
+ */
+export interface SessionMiddleware {
+    getSession: SolidRequestHandler;
+    getSessionMandatory: SolidRequestHandler;
+    getSessionOptional: SolidRequestHandler;
+}
+
+/**
+ * Creates the session middlewares with the given options, as typed request handlers instead of functions to bind.
+ *
+ * @param {SessionContext} [options] - The custom storage implementation, session lock, refresh token callback and session factory.
+ * @returns {SessionMiddleware} The session middlewares.
+ */
+export function createSessionMiddleware(options: SessionContext = {}): SessionMiddleware {
+    const context = { ...options };
+    return {
+        getSession: getSession.bind(context),
+        getSessionMandatory: getSessionMandatory.bind(context),
+        getSessionOptional: getSessionOptional.bind(context)
+    };
+}
+
+/**
+ * Creates an Express router that handles the Solid OIDC login flow and populates the Solid session data.
+ * - `GET {loginPath}` redirects the user to the IdP. The optional `redirectUrl` and `locale` query parameters are stored in the session.
+ * - `GET {callbackPath}` handles the redirect back from the IdP, regenerates the ExpressJS session, sets `solidSid` and `pods` and redirects the user to `redirectUrl`.
+ * - `GET|POST {logoutPath}` clears the Solid session from storage, closes its notification subscriptions and destroys the ExpressJS session.
+ *
+ * @param {SolidAuthRouterOptions} options - The IdP, client and redirect configuration of the router.
+ * @returns {Router} - The Express router, to be mounted by the application.
+ */
+export function createSolidAuthRouter(options: SolidAuthRouterOptions): Router {
+    const router = Router();
+    const loginPath = options.loginPath ?? "/login";
+    const callbackPath = options.callbackPath ?? "/callback";
+    const logoutPath = options.logoutPath ?? "/logout";
+
+    router.get(loginPath, async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const redirectUrl = req.query.redirectUrl as string | undefined;
+            if (redirectUrl) {
+                if (!isRedirectUrlAllowed(redirectUrl, options.allowedRedirectOrigins)) {
+                    throw new HttpError(`[solidAuthRouter] Redirect URL [${redirectUrl}] is not allowed.`, 400);
+                }
+                req.session.redirectUrl = redirectUrl;
+            }
+            if (req.query.locale) {
+                req.session.locale = req.query.locale as string;
+            }
+
+            const session = new Session({ storage: options.storage, keepAlive: false });
+            req.session.pendingSolidSid = session.info.sessionId;
+
+            await session.login({
+                oidcIssuer: options.oidcIssuer,
+                redirectUrl: new URL(req.baseUrl + callbackPath, options.baseUrl).href,
+                clientId: options.clientId,
+                clientSecret: options.clientSecret,
+                clientName: options.clientName,
+                handleRedirect: (url: string) => req.session.save(error => error ? next(error) : res.redirect(url))
+            });
+        } catch (error) {
+            // A general error catcher which will, in turn, call the ExpressJS error handler.
+            next(error);
+        }
+    });
+
+    router.get(callbackPath, async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const sessionId = req.session.pendingSolidSid;
+            if (!sessionId) {
+                throw new HttpError("[solidAuthRouter] No pending login found in session.", 400);
+            }
+
+            const session = await getSessionFromStorage(sessionId, { storage: options.storage });
+            if (!session) {
+                throw new HttpError(`[solidAuthRouter] No Solid session [${sessionId}] found in storage.`, 401);
+            }
+
+            await session.handleIncomingRedirect(new URL(req.originalUrl, options.baseUrl).href);
+            if (!session.info.isLoggedIn || !session.info.webId) {
+                throw new HttpError("[solidAuthRouter] Login at the identity provider failed.", 401);
+            }
+
+            const pods = await getPodUrlAll(session.info.webId, { fetch: session.fetch });
+            const redirectUrl = req.session.redirectUrl ?? options.defaultRedirectUrl ?? "/";
+            const locale = req.session.locale;
+
+            // The ExpressJS session gets a new id on login to prevent session fixation, only the locale is carried over.
+            await new Promise<void>((resolve, reject) => req.session.regenerate(error => error ? reject(error) : resolve()));
+            req.session.solidSid = session.info.sessionId;
+            req.session.pods = pods;
+            req.session.podsFetchedAt = new Date().toISOString();
+            if (locale) {
+                req.session.locale = locale;
+            }
+
+            log.debug(`[solidAuthRouter] Logged in WebID [${session.info.webId}] with session [${session.info.sessionId}].`);
+
+            req.session.save(error => error ? next(error) : res.redirect(redirectUrl));
+        } catch (error) {
+            // A general error catcher which will, in turn, call the ExpressJS error handler.
+            next(error);
+        }
+    });
+
+    router.all(logoutPath, async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const sessionId = req.session?.solidSid ?? req.session?.pendingSolidSid;
+            if (sessionId) {
+                options.notificationRelay?.closeSession(sessionId);
+                // Logging out a session created from storage removes all its data from that storage.
+                await new Session({ storage: options.storage, keepAlive: false }, sessionId).logout({ logoutType: "app" });
+            }
+
+            req.session.destroy(error => {
+                if (error) {
+                    next(error);
+                    return;
+                }
+                if (options.postLogoutRedirectUrl) {
+                    res.redirect(options.postLogoutRedirectUrl);
+                } else {
+                    res.status(204).end();
+                }
+            });
+        } catch (error) {
+            // A general error catcher which will, in turn, call the ExpressJS error handler.
+            next(error);
+        }
+    });
+
+    return router;
+}
@@ -2,48 +2,354 @@ import {NextFunction, Request, Response} from "express";
 import log from "loglevel";
 import {VcServiceV2} from "@vito-nv/weare-core";
 import httpContext from "express-http-context";
-import {AccessGrantFilter} from "@inrupt/solid-client-access-grants/dist/gConsent/query/query";
+import {HttpError} from "../http-error/http-error";
+import {audited, AuditSink} from "../audit/audit";
+import {AccessGrantFilter, CredentialResult} from "@inrupt/solid-client-access-grants/dist/gConsent/query/query";
+import {
+    DatasetWithId,
+    getExpirationDate,
+    IssueAccessRequestParameters,
+    isValidAccessGrant,
+    issueAccessRequest,
+    redirectToAccessManagementUi
+} from "@inrupt/solid-client-access-grants";
+import {
+    AccessMode,
+    getInvalidGrantedResources,
+    getRequiredAccessModes,
+    isResourceInScope,
+    parseAccessGrantScope
+} from "../helper/access-grant-helper";
+import {
+    describeResourceUrlSource,
+    getResourceUrlSource,
+    ResourceUrlSource,
+    resolveResourceUrls,
+    validateResourceUrlSource
+} from "../helper/resource-helper";
+import {SolidRequestHandler} from "../session/response-locals";
+import {ResourceUrlPolicy} from "../helper/resource-url-policy";
+import {ResiliencePolicy, withResilience} from "../helper/resilience";
+
+/**
+ * Options of the VC middlewares created by `createVcMiddleware`.
+ * Each middleware only uses the options that apply to it, e.g. `consentUrl` is used by `ensureAccessGrant`.
+ */
+export interface VcMiddlewareOptions {
+    vcService: VcServiceV2;
+    fetchWithSession?: boolean;
+    credentialResultParameterKey?: string;
+    accessGrantFilter?: AccessGrantFilter;
+    requestorWebId?: string;
+    renewalWindowSeconds?: number;
+    consentUrl?: string | ((req: Request) => string);
+    accessRequest?: IssueAccessRequestParameters | ((req: Request) => IssueAccessRequestParameters); // The access `ensureAccessGrant` requests when no access grant is found.
+    resourceUrl?: ResourceUrlSource; // Where `verifyAccessGrantScope` reads the resource URL from, the `resourceUrl` query parameter by default.
+    urlPolicy?: ResourceUrlPolicy; // Restricts the URLs to the user's Pods or allowed origins, to the user's Pods by default.
+    modes?: AccessMode[];
+    purposes?: string[];
+    trustedIssuers?: string[];
+    checkRevocation?: boolean;
+    fetch?: typeof fetch;
+    resilience?: ResiliencePolicy; // Guards the calls to the VC service with timeouts, retries and a circuit breaker.
+    auditSink?: AuditSink; // Records the access grant lookups, nothing is recorded without one.
+}
+
+/**
+ * The VC middlewares created by `createVcMiddleware`.
+ */
+export interface VcMiddleware {
+    validateAccessGrant: SolidRequestHandler;
+    fetchAccessGrants: SolidRequestHandler;
+    ensureAccessGrant: SolidRequestHandler;
+    verifyAccessGrantScope: SolidRequestHandler;
+}
+
+/**
+ * Creates the VC middlewares with the given options, as typed request handlers instead of functions to bind.
+ *
+ * @param {VcMiddlewareOptions} options - The VC service and the options of the individual middlewares.
+ * @returns {VcMiddleware} The VC middlewares.
+ */
+export function createVcMiddleware(options: VcMiddlewareOptions): VcMiddleware {
+    const context = { ...options, resourceUrl: validateResourceUrlSource(options.resourceUrl ?? { query: "resourceUrl" }) };
+    return {
+        validateAccessGrant: validateAccessGrant,
+        fetchAccessGrants: fetchAccessGrants.bind(context),
+        ensureAccessGrant: ensureAccessGrant.bind(context),
+        verifyAccessGrantScope: verifyAccessGrantScope.bind(context)
+    };
+}
 
 /**
  * Middleware function to validate the presence and validity of an access grant in the session.
  * This function checks if an access grant is stored in the session and if it has not expired.
- * If the access grant is missing or expired, the request is rejected with a 403 status code.
+ * If the access grant is missing or expired, the request is rejected with a 403 `HttpError`.
  *
  * @param {Request} req - The Express request object, which should contain the session data.
- * @param {Response} res - The Express response object, used to send error responses if validation fails.
- * @param {NextFunction} next - The next middleware function to call if validation passes.
- * @this {any} context - The function may optionally use this binding to access additional context.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function to call if validation passes, or with a 403 `HttpError` if it fails.
  */
-export async function validateAccessGrant(this: any, req: Request, res: Response, next: NextFunction) {
+export async function validateAccessGrant(req: Request, res: Response, next: NextFunction) {
     if (!req.session.accessGrant) {
         log.debug(`[fetchAccessGrantMandatoryOrOptional] No access grant found in session.`);
 
-        res.status(403).send("No access grant for pod found.");
+        next(new HttpError("No access grant for pod found.", 403, { code: "ACCESS_GRANT_MISSING" }));
         return;
     }
 
     if (req.session.accessGrantExpirationDate && new Date(req.session.accessGrantExpirationDate).getTime() < Date.now()) {
         log.debug(`[fetchAccessGrantMandatoryOrOptional] Access grant expired.`);
 
-        res.status(403).send("Access grant for pod has expired.");
+        next(new HttpError("Access grant for pod has expired.", 403, { code: "ACCESS_GRANT_EXPIRED" }));
         return;
     }
 
     next();
 }
 
-export async function fetchAccessGrants(this: { credentialResultParameterKey?: string, vcService: VcServiceV2, fetchWithSession? : boolean }, req: Request, res: Response, next: NextFunction) {
+/**
+ * Middleware function to fetch the access grants matching the access grant filter in the route parameters with the `vcService`.
+ * The resulting `CredentialResult` is exposed via `res.locals.credentialResult`, or the configured `credentialResultParameterKey`.
+ *
+ * @param {Object} this - The context object containing the VC service and optionally the parameter key, whether to fetch with the session and a resilience policy.
+ * @param {Request} req - The Express request object, containing the access grant filter.
+ * @param {Response} res - The Express response object, which contains the authenticated session.
+ * @param {NextFunction} next - The next middleware function to call after fetching the access grants.
+ */
+export async function fetchAccessGrants(this: { credentialResultParameterKey?: string, vcService: VcServiceV2, fetchWithSession? : boolean, resilience?: ResiliencePolicy, auditSink?: AuditSink }, req: Request, res: Response, next: NextFunction) {
     try {
-        if(!this.credentialResultParameterKey) this.credentialResultParameterKey = 'credentialResult';
+        const credentialResultParameterKey = this.credentialResultParameterKey ?? 'credentialResult';
 
         const accessGrantFilters = JSON.parse(JSON.stringify(req.params.accessGrantFilter)) as AccessGrantFilter;
 
-        // @ts-ignore
-        res.locals[this.credentialResultParameterKey] = await this.vcService.fetchAccessGrants(httpContext.get('correlationId'), accessGrantFilters, this.fetchWithSession ? res.locals.session.fetch : undefined);
+        res.locals[credentialResultParameterKey] = await audited(this.auditSink, req, res, "fetchAccessGrants", accessGrantFilters.resource?.toString() ?? "", () =>
+            withResilience(this.resilience, "fetchAccessGrants", "vcService", () =>
+                this.vcService.fetchAccessGrants(httpContext.get('correlationId'), accessGrantFilters, this.fetchWithSession ? res.locals.session.fetch : undefined)
+            )
+        );
 
         next();
     } catch (error) {
         // A general error catcher which will, in turn, call the ExpressJS error handler.
         next(error);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Middleware function that makes sure a valid access grant is stored in the session before continuing.
+ * When the access grant is missing or expires within `renewalWindowSeconds` (default 300), the active access grants of the user
+ * are fetched with the `vcService` and the one that stays valid the longest is stored in the session, together with its expiration date.
+ * If no such access grant exists, an access grant that is about to expire is used until it expires. Otherwise, with an `accessRequest`,
+ * the access is requested and the user is redirected to the access management UI of their WebID, or the `consentUrl` as fallback,
+ * to approve it; without one, the user is redirected to `consentUrl`. In both cases, `redirectUrl` is set in the session so the app
+ * can return after consent was given. Without a `consentUrl` or `accessRequest`, the request is rejected with a 403 `HttpError`.
+ *
+ * @param {Object} this - The context object containing the VC service and optionally the access grant filter, requestor WebID, renewal window, consent URL, access request, whether to fetch with the session and a resilience policy.
+ * @param {Request} req - The Express request object, which contains the session data.
+ * @param {Response} res - The Express response object, which contains the authenticated session.
+ * @param {NextFunction} next - The next middleware function to call once a valid access grant is stored in the session.
+ */
+export async function ensureAccessGrant(this: {
+    vcService: VcServiceV2,
+    accessGrantFilter?: AccessGrantFilter,
+    requestorWebId?: string,
+    renewalWindowSeconds?: number,
+    consentUrl?: string | ((req: Request) => string),
+    accessRequest?: IssueAccessRequestParameters | ((req: Request) => IssueAccessRequestParameters),
+    fetchWithSession?: boolean,
+    resilience?: ResiliencePolicy,
+    auditSink?: AuditSink
+}, req: Request, res: Response, next: NextFunction) {
+    try {
+        const renewalDeadline = Date.now() + (this.renewalWindowSeconds ?? 300) * 1000;
+
+        if (req.session.accessGrant &&
+            (!req.session.accessGrantExpirationDate || new Date(req.session.accessGrantExpirationDate).getTime() > renewalDeadline)) {
+            next();
+            return;
+        }
+
+        log.debug(`[ensureAccessGrant] Access grant missing or about to expire, fetching active access grants.`);
+
+        const accessGrantFilter: AccessGrantFilter = {
+            type: "SolidAccessGrant",
+            status: "Active",
+            ...(res.locals.session?.info?.webId ? {fromAgent: new URL(res.locals.session.info.webId)} : {}),
+            ...(this.requestorWebId ? {toAgent: new URL(this.requestorWebId)} : {}),
+            ...this.accessGrantFilter
+        };
+        const credentialResult = await audited(this.auditSink, req, res, "fetchAccessGrants", accessGrantFilter.resource?.toString() ?? "", () =>
+            withResilience(this.resilience, "fetchAccessGrants", "vcService", () =>
+                this.vcService.fetchAccessGrants(httpContext.get('correlationId'), accessGrantFilter, this.fetchWithSession ? res.locals.session.fetch : undefined)
+            )
+        ) as CredentialResult;
+
+        const accessGrant = credentialResult.items
+            .filter(grant => (getExpirationDate(grant)?.getTime() ?? Infinity) > renewalDeadline)
+            .sort(compareByExpirationDate)[0];
+
+        if (accessGrant) {
+            req.session.accessGrant = JSON.stringify(accessGrant);
+            req.session.accessGrantExpirationDate = getExpirationDate(accessGrant)?.toISOString();
+            log.debug(`[ensureAccessGrant] Stored access grant [${accessGrant.id}] in session.`);
+            next();
+            return;
+        }
+
+        if (req.session.accessGrant && new Date(req.session.accessGrantExpirationDate!).getTime() > Date.now()) {
+            log.debug(`[ensureAccessGrant] No longer valid access grant found, using the access grant in session until it expires.`);
+            next();
+            return;
+        }
+
+        const consentUrl = typeof this.consentUrl === "function" ? this.consentUrl(req) : this.consentUrl;
+        const redirect = (url: string) => {
+            req.session.redirectUrl = req.originalUrl;
+            req.session.save(error => error ? next(error) : res.redirect(url));
+        };
+
+        if (this.accessRequest) {
+            const accessRequestParameters = typeof this.accessRequest === "function" ? this.accessRequest(req) : this.accessRequest;
+            const accessRequest = await issueAccessRequest(accessRequestParameters, { fetch: res.locals.session.fetch, returnLegacyJsonld: false });
+            log.debug(`[ensureAccessGrant] No valid access grant found, requested access with [${accessRequest.id}].`);
+
+            const returnUrl = new URL(req.originalUrl, `${req.protocol}://${req.get("host")}`).href;
+            await redirectToAccessManagementUi(accessRequest, returnUrl, {
+                fetch: res.locals.session.fetch,
+                resourceOwner: res.locals.session?.info?.webId,
+                fallbackAccessManagementUi: consentUrl && new URL(consentUrl, returnUrl).href,
+                redirectCallback: redirect
+            });
+            return;
+        }
+
+        if (consentUrl) {
+            log.debug(`[ensureAccessGrant] No valid access grant found, redirecting to the consent flow.`);
+            redirect(consentUrl);
+            return;
+        }
+
+        next(new HttpError("No valid access grant for pod found.", 403, { code: "ACCESS_GRANT_UNAVAILABLE" }));
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
+
+/**
+ * Orders access grants by their expiration date, the one that stays valid the longest first and those that don't expire before all.
+ */
+function compareByExpirationDate(accessGrant: DatasetWithId, otherAccessGrant: DatasetWithId): number {
+    const expirationTime = getExpirationDate(accessGrant)?.getTime();
+    const otherExpirationTime = getExpirationDate(otherAccessGrant)?.getTime();
+    if (expirationTime === otherExpirationTime) {
+        return 0;
+    }
+    if (expirationTime === undefined) {
+        return -1;
+    }
+    if (otherExpirationTime === undefined) {
+        return 1;
+    }
+    return otherExpirationTime - expirationTime;
+}
+
+/**
+ * Middleware function to verify that the access grant in the session covers the resource that will be accessed.
+ * Next to presence and expiry, it checks that the resource URL in the query parameter is one of the granted resources or
+ * contained in a granted container (if the grant is inherited), that the grant includes the access modes required by the
+ * HTTP method (or all of the configured `modes`), and optionally the purposes, the issuer and the revocation status of the grant.
+ * A violation is rejected with a 403 `HttpError` stating the reason, before any request to the pod is made.
+ *
+ * @param {Object} this - The context object containing the resource URL parameter key or source and URL policy and optionally the required modes and purposes, the trusted issuers, whether to check revocation and the fetch to do so.
+ * @param {Request} req - The Express request object, which should contain the session data and the resource URL.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function to call if verification passes, or with an `HttpError` if it fails.
+ */
+export async function verifyAccessGrantScope(this: {
+    resourceUrlParameterKey?: string,
+    resourceUrl?: ResourceUrlSource,
+    urlPolicy?: ResourceUrlPolicy,
+    modes?: AccessMode[],
+    purposes?: string[],
+    trustedIssuers?: string[],
+    checkRevocation?: boolean,
+    fetch?: typeof fetch
+}, req: Request, res: Response, next: NextFunction) {
+    try {
+        if (!req.session.accessGrant) {
+            throw new HttpError("No access grant for pod found.", 403, { code: "ACCESS_GRANT_MISSING" });
+        }
+
+        const source = getResourceUrlSource(this.resourceUrl, this.resourceUrlParameterKey);
+        const [resourceUrl] = resolveResourceUrls(req, res, source, this.urlPolicy);
+        if (!resourceUrl) {
+            throw new HttpError(
+                `The middleware verifyAccessGrantScope requires a valid resource URL to be provided ${describeResourceUrlSource(source)}.`,
+                400
+            );
+        }
+
+        const scope = parseAccessGrantScope(req.session.accessGrant);
+
+        if (scope.expirationDate && scope.expirationDate.getTime() < Date.now()) {
+            throw new HttpError("Access grant for pod has expired.", 403, { code: "ACCESS_GRANT_EXPIRED" });
+        }
+
+        if (!isResourceInScope(scope, resourceUrl)) {
+            const invalidResources = getInvalidGrantedResources(scope);
+            throw new HttpError(
+                `Access grant doesn't cover resource [${resourceUrl}]` +
+                (invalidResources.length > 0 ? `, its resources [${invalidResources.join(", ")}] are not valid URLs.` : "."),
+                403,
+                { code: "ACCESS_GRANT_RESOURCE_NOT_COVERED" }
+            );
+        }
+
+        // The configured modes are all required, of the modes required by the method (Write or Append for a POST) one suffices.
+        if (this.modes) {
+            if (!this.modes.every(mode => scope.modes.includes(mode))) {
+                throw new HttpError(
+                    `Access grant doesn't include all of the access modes [${this.modes.join(", ")}].`,
+                    403,
+                    { code: "ACCESS_GRANT_MODE_NOT_COVERED" }
+                );
+            }
+        } else {
+            const requiredModes = getRequiredAccessModes(req.method);
+            if (!requiredModes.some(mode => scope.modes.includes(mode))) {
+                throw new HttpError(
+                    `Access grant doesn't include any of the access modes [${requiredModes.join(", ")}].`,
+                    403,
+                    { code: "ACCESS_GRANT_MODE_NOT_COVERED" }
+                );
+            }
+        }
+
+        if (this.purposes && !this.purposes.some(purpose => scope.purposes.includes(purpose))) {
+            throw new HttpError(
+                `Access grant doesn't include any of the purposes [${this.purposes.join(", ")}].`,
+                403,
+                { code: "ACCESS_GRANT_PURPOSE_NOT_COVERED" }
+            );
+        }
+
+        if (this.trustedIssuers && (!scope.issuer || !this.trustedIssuers.includes(scope.issuer))) {
+            throw new HttpError(`Access grant is issued by untrusted issuer [${scope.issuer}].`, 403, { code: "ACCESS_GRANT_UNTRUSTED_ISSUER" });
+        }
+
+        if (this.checkRevocation) {
+            const verification = await isValidAccessGrant(JSON.parse(req.session.accessGrant), { fetch: this.fetch ?? res.locals.session?.fetch });
+            if (verification.errors.length > 0) {
+                log.debug(`[verifyAccessGrantScope] Access grant [${scope.id}] is not valid: ${verification.errors.join(", ")}.`);
+                throw new HttpError("Access grant for pod is revoked or invalid.", 403, { code: "ACCESS_GRANT_REVOKED" });
+            }
+        }
+
+        next();
+    } catch (error) {
+        // A general error catcher which will, in turn, call the ExpressJS error handler.
+        next(error);
+    }
+}
@@ -0,0 +1,250 @@
+import {Response} from "express";
+import {randomUUID} from "node:crypto";
+import log from "loglevel";
+import {
+    NotificationChannel,
+    NotificationChannelType,
+    subscribeToNotifications,
+    unsubscribeFromNotifications
+} from "./notification-subscription";
+
+/**
+ * Options of the `NotificationRelay`.
+ */
+export interface NotificationRelayOptions {
+    channelType?: NotificationChannelType; // `WebSocketChannel2023` by default.
+    webhookBaseUrl?: string; // The public URL of the route with `receiveWebhookNotification`, required for a `WebhookChannel2023`.
+    webSocketFactory?: (url: string) => WebSocket; // Opens the WebSocket of a channel, the global `WebSocket` (Node 22+) by default.
+    heartbeatIntervalMs?: number; // The interval of the comments that keep idle event streams open, 30s by default.
+}
+
+/**
+ * A subscription of one session to one topic, shared by all event streams of the session on that topic.
+ */
+interface RelayedSubscription {
+    key: string;
+    topic: string;
+    authFetch: typeof fetch;
+    clients: Set<Response>;
+    ready: Promise<void>;
+    closed: boolean;
+    channel?: NotificationChannel;
+    socket?: WebSocket;
+    webhookToken?: string;
+    heartbeat?: NodeJS.Timeout;
+}
+
+/**
+ * Relays the Solid Notifications of resources and containers to clients as Server-Sent Events.
+ * The notifications are subscribed to with the authenticated fetch of the session. All event streams of a session on the same
+ * topic share one subscription, which is closed and deleted when the last event stream disconnects or the session logs out.
+ */
+export class NotificationRelay {
+    private readonly subscriptions = new Map<string, RelayedSubscription>();
+    private readonly webhookSubscriptions = new Map<string, RelayedSubscription>();
+    private readonly channelType: NotificationChannelType;
+    private readonly webhookBaseUrl?: string;
+    private readonly webSocketFactory: (url: string) => WebSocket;
+    private readonly heartbeatIntervalMs: number;
+
+    /**
+     * Creates an instance of NotificationRelay.
+     * @param {NotificationRelayOptions} [options] - The channel type, the webhook URL, the WebSocket factory and the heartbeat interval.
+     */
+    constructor(options: NotificationRelayOptions = {}) {
+        this.channelType = options.channelType ?? "WebSocketChannel2023";
+        this.webhookBaseUrl = options.webhookBaseUrl;
+        this.webSocketFactory = options.webSocketFactory ?? createWebSocket;
+        this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000;
+
+        if (this.channelType === "WebhookChannel2023" && !this.webhookBaseUrl) {
+            throw new Error("A webhook base URL is required to receive notifications over a WebhookChannel2023.");
+        }
+    }
+
+    /**
+     * Starts an event stream relaying the notifications of a topic to a client, subscribing to them if needed.
+     * @param {string} sessionId - The Solid session id of the client.
+     * @param {string} topic - The URL of the resource or container.
+     * @param {typeof fetch} authFetch - The authenticated fetch of the session.
+     * @param {Response} client - The Express response object the events are written to.
+     * @throws {HttpError} Throws an error if subscribing to the notifications fails, before anything is written to the client.
+     */
+    async addClient(sessionId: string, topic: string, authFetch: typeof fetch, client: Response): Promise<void> {
+        const key = `${sessionId} ${topic}`;
+        let subscription = this.subscriptions.get(key);
+        if (!subscription) {
+            const created: RelayedSubscription = { key, topic, authFetch, clients: new Set(), ready: Promise.resolve(), closed: false };
+            created.ready = this.open(created).catch(error => {
+                // The waiting clients haven't received anything yet, so they are left to the error handler.
+                created.closed = true;
+                this.release(created);
+                throw error;
+            });
+            this.subscriptions.set(key, created);
+            subscription = created;
+        }
+
+        subscription.clients.add(client);
+        try {
+            await subscription.ready;
+        } catch (error) {
+            subscription.clients.delete(client);
+            throw error;
+        }
+
+        if (subscription.closed || client.writableEnded) {
+            client.end();
+            return;
+        }
+        client.status(200).set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no"
+        });
+        client.flushHeaders();
+        client.write(": subscribed\n\n");
+    }
+
+    /**
+     * Stops relaying notifications to a client, closing the subscription if it was the last client.
+     * @param {string} sessionId - The Solid session id of the client.
+     * @param {string} topic - The URL of the resource or container.
+     * @param {Response} client - The Express response object of the client.
+     */
+    removeClient(sessionId: string, topic: string, client: Response) {
+        const subscription = this.subscriptions.get(`${sessionId} ${topic}`);
+        if (!subscription) {
+            return;
+        }
+        subscription.clients.delete(client);
+        if (subscription.clients.size === 0) {
+            this.close(subscription);
+        }
+    }
+
+    /**
+     * Relays a notification received by the webhook of a `WebhookChannel2023`.
+     * @param {string} token - The token identifying the subscription, the last path segment of the webhook URL.
+     * @param {string} notification - The notification as posted by the pod.
+     * @returns {boolean} False if the token doesn't belong to an open subscription.
+     */
+    receive(token: string, notification: string): boolean {
+        const subscription = this.webhookSubscriptions.get(token);
+        if (!subscription) {
+            return false;
+        }
+        this.dispatch(subscription, notification);
+        return true;
+    }
+
+    /**
+     * Ends the event streams and closes the subscriptions of a session, e.g. on logout.
+     * @param {string} sessionId - The Solid session id.
+     */
+    closeSession(sessionId: string) {
+        [...this.subscriptions.values()]
+            .filter(subscription => subscription.key.startsWith(`${sessionId} `))
+            .forEach(subscription => this.close(subscription));
+    }
+
+    /**
+     * Ends all event streams and closes all subscriptions, e.g. on shutdown.
+     */
+    closeAll() {
+        [...this.subscriptions.values()].forEach(subscription => this.close(subscription));
+    }
+
+    private async open(subscription: RelayedSubscription) {
+        if (this.channelType === "WebhookChannel2023") {
+            const token = randomUUID();
+            subscription.webhookToken = token;
+            this.webhookSubscriptions.set(token, subscription);
+            subscription.channel = await subscribeToNotifications(
+                subscription.topic, this.channelType, subscription.authFetch, `${this.webhookBaseUrl!.replace(/\/$/, "")}/${token}`
+            );
+        } else {
+            subscription.channel = await subscribeToNotifications(subscription.topic, this.channelType, subscription.authFetch);
+            const socket = this.webSocketFactory(subscription.channel.receiveFrom!);
+            subscription.socket = socket;
+            socket.onmessage = event => this.dispatch(subscription, String(event.data));
+            socket.onerror = () => log.warn(`[NotificationRelay] WebSocket of the notifications of [${subscription.topic}] failed.`);
+            socket.onclose = () => this.close(subscription);
+        }
+        log.debug(`[NotificationRelay] Subscribed to the notifications of [${subscription.topic}] via channel [${subscription.channel.id}].`);
+
+        subscription.heartbeat = setInterval(() => this.write(subscription, ": heartbeat\n\n"), this.heartbeatIntervalMs);
+        subscription.heartbeat.unref();
+
+        if (subscription.closed) {
+            // All clients disconnected while subscribing.
+            this.release(subscription);
+        }
+    }
+
+    private dispatch(subscription: RelayedSubscription, notification: string) {
+        let event = "notification";
+        let id: string | undefined;
+        let data = notification;
+        try {
+            const activity = JSON.parse(notification);
+            const type = Array.isArray(activity.type) ? activity.type[0] : activity.type;
+            event = typeof type === "string" ? type.split(/[#/:]/).pop()!.replace(/[^\w-]/g, "") || event : event;
+            id = typeof activity.id === "string" ? activity.id.replace(/[\r\n]/g, "") : undefined;
+            data = JSON.stringify(activity);
+        } catch {
+            log.debug(`[NotificationRelay] Relaying a notification of [${subscription.topic}] that isn't JSON.`);
+        }
+
+        const lines = data.split(/\r?\n/).map(line => `data: ${line}`).join("\n");
+        this.write(subscription, `event: ${event}\n${id ? `id: ${id}\n` : ""}${lines}\n\n`);
+    }
+
+    private write(subscription: RelayedSubscription, message: string) {
+        subscription.clients.forEach(client => {
+            if (client.headersSent && !client.writableEnded) {
+                client.write(message);
+            }
+        });
+    }
+
+    private close(subscription: RelayedSubscription) {
+        if (subscription.closed) {
+            return;
+        }
+        subscription.closed = true;
+        subscription.clients.forEach(client => client.end());
+        subscription.clients.clear();
+        this.release(subscription);
+    }
+
+    private release(subscription: RelayedSubscription) {
+        if (this.subscriptions.get(subscription.key) === subscription) {
+            this.subscriptions.delete(subscription.key);
+        }
+        if (subscription.webhookToken) {
+            this.webhookSubscriptions.delete(subscription.webhookToken);
+        }
+        clearInterval(subscription.heartbeat);
+
+        const {socket, channel} = subscription;
+        subscription.socket = undefined;
+        subscription.channel = undefined;
+        if (socket) {
+            socket.onclose = null;
+            socket.close();
+        }
+        if (channel) {
+            unsubscribeFromNotifications(channel, subscription.authFetch)
+                .catch(error => log.warn(`[NotificationRelay] Deleting notification channel [${channel.id}] failed.\n${error}`));
+        }
+    }
+}
+
+function createWebSocket(url: string): WebSocket {
+    if (typeof WebSocket === "undefined") {
+        throw new Error("No WebSocket implementation is available, pass a webSocketFactory (e.g. using the ws package) on Node versions before 22.");
+    }
+    return new WebSocket(url);
+}
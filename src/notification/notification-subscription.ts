@@ -0,0 +1,111 @@
+import {getThingAll, getUrlAll} from "@inrupt/solid-client";
+import {parseRdf} from "../helper/rdf-helper";
+import {podResponseToHttpError} from "../helper/resource-helper";
+import {HttpError} from "../http-error/http-error";
+
+const NOTIFY = "http://www.w3.org/ns/solid/notifications#";
+const STORAGE_DESCRIPTION = "http://www.w3.org/ns/solid/terms#storageDescription";
+
+export type NotificationChannelType = "WebSocketChannel2023" | "WebhookChannel2023";
+
+/**
+ * A notification channel as returned by the subscription service of the pod.
+ */
+export interface NotificationChannel {
+    id: string;
+    type: string;
+    topic: string;
+    receiveFrom?: string; // The URL to open a WebSocket to, for a `WebSocketChannel2023`.
+    sendTo?: string; // The URL the pod posts the notifications to, for a `WebhookChannel2023`.
+}
+
+/**
+ * Discovers the subscription service of a channel type, as advertised in the storage description of the resource's storage.
+ * @param {string} topic - The URL of the resource or container to subscribe to.
+ * @param {NotificationChannelType} channelType - The type of notification channel.
+ * @param {typeof fetch} authFetch - The authenticated fetch of the session.
+ * @returns {Promise<string>} The URL of the subscription service.
+ * @throws {HttpError} Throws a 502 error if the pod doesn't advertise a subscription service for the channel type.
+ */
+export async function discoverSubscriptionService(topic: string, channelType: NotificationChannelType, authFetch: typeof fetch): Promise<string> {
+    const resource = await authFetch(topic, {method: "HEAD"});
+    if (!resource.ok) {
+        throw podResponseToHttpError(resource, "Discovering the notification subscription service");
+    }
+
+    const storageDescriptionUrl = getLinkedUrl(resource.headers.get("Link"), STORAGE_DESCRIPTION, topic);
+    if (!storageDescriptionUrl) {
+        throw new HttpError(`The pod of resource [${topic}] doesn't advertise a storage description.`, 502);
+    }
+
+    const description = await authFetch(storageDescriptionUrl, {headers: {Accept: "text/turtle"}});
+    if (!description.ok) {
+        throw podResponseToHttpError(description, "Reading the storage description");
+    }
+    const dataset = await parseRdf(await description.text(), description.headers.get("Content-Type") ?? "text/turtle", storageDescriptionUrl);
+
+    const subscriptionService = getThingAll(dataset)
+        .find(thing => getUrlAll(thing, `${NOTIFY}channelType`).includes(`${NOTIFY}${channelType}`));
+    if (!subscriptionService) {
+        throw new HttpError(`The pod of resource [${topic}] doesn't offer a subscription service for [${channelType}].`, 502);
+    }
+    return subscriptionService.url;
+}
+
+/**
+ * Subscribes to the notifications of a resource or container.
+ * @param {string} topic - The URL of the resource or container to subscribe to.
+ * @param {NotificationChannelType} channelType - The type of notification channel.
+ * @param {typeof fetch} authFetch - The authenticated fetch of the session.
+ * @param {string} [sendTo] - The URL the notifications are posted to, required for a `WebhookChannel2023`.
+ * @returns {Promise<NotificationChannel>} The created notification channel.
+ * @throws {HttpError} Throws an error with the status of the pod if the subscription fails.
+ */
+export async function subscribeToNotifications(topic: string, channelType: NotificationChannelType, authFetch: typeof fetch, sendTo?: string): Promise<NotificationChannel> {
+    const subscriptionService = await discoverSubscriptionService(topic, channelType, authFetch);
+
+    const response = await authFetch(subscriptionService, {
+        method: "POST",
+        headers: {"Content-Type": "application/ld+json"},
+        body: JSON.stringify({
+            "@context": ["https://www.w3.org/ns/solid/notification/v1"],
+            type: `${NOTIFY}${channelType}`,
+            topic,
+            ...(sendTo ? {sendTo} : {})
+        })
+    });
+    if (!response.ok) {
+        throw podResponseToHttpError(response, "Subscribing to notifications");
+    }
+
+    const channel = await response.json() as NotificationChannel;
+    if (channelType === "WebSocketChannel2023" && !channel.receiveFrom) {
+        throw new HttpError(`The subscription service [${subscriptionService}] returned a channel without receiveFrom.`, 502);
+    }
+    return channel;
+}
+
+/**
+ * Deletes a notification channel, so the pod stops sending notifications.
+ * @param {NotificationChannel} channel - The notification channel.
+ * @param {typeof fetch} authFetch - The authenticated fetch of the session.
+ */
+export async function unsubscribeFromNotifications(channel: NotificationChannel, authFetch: typeof fetch) {
+    const response = await authFetch(channel.id, {method: "DELETE"});
+    if (!response.ok && response.status !== 404) {
+        throw podResponseToHttpError(response, "Unsubscribing from notifications");
+    }
+}
+
+/**
+ * Reads the URL of a link relation from a `Link` header, resolved against the URL of the resource.
+ */
+function getLinkedUrl(linkHeader: string | null, relation: string, baseUrl: string): string | undefined {
+    for (const link of (linkHeader ?? "").matchAll(/<([^>]*)>([^,<]*)/g)) {
+        const rel = /rel="?([^";]*)"?/.exec(link[2])?.[1];
+        if (rel?.split(/\s+/).includes(relation)) {
+            return new URL(link[1], baseUrl).href;
+        }
+    }
+    return undefined;
+}
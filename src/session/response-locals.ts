@@ -0,0 +1,34 @@
+import {Request, RequestHandler} from "express";
+import {Session} from "@inrupt/solid-client-authn-node";
+import {SolidDataset} from "@inrupt/solid-client";
+import {CredentialResult} from "@inrupt/solid-client-access-grants/dist/gConsent/query/query";
+import type {ContainerPage, FileResult} from "../middleware/resource-middleware";
+import type {AuditEvent} from "../audit/audit";
+import type {CachedResource} from "../helper/resource-cache";
+
+/**
+ * The values the middlewares of this library expose via `res.locals`. Each value is only present after the middleware that sets it.
+ * Consumers can type `res.locals` of all their handlers by extending the Express locals interface with it:
+ * `declare global { namespace Express { interface Locals extends SolidLocals {} } }`.
+ */
+export interface SolidLocals {
+    session?: Session; // Set by `getSession` and its variants.
+    pods?: string[]; // Set by `getPods` and its variants.
+    pod?: string; // Set by `getActivePod`.
+    solidDataset?: SolidDataset; // Set by `getResource`.
+    cachedResource?: CachedResource; // Set by `getResource` with a cache, `sendResource` sends its validators if the dataset is unchanged.
+    shapedObjects?: unknown[]; // Set by `getResource` and `writeResource` when a shape is configured.
+    file?: Blob; // Set by `getFile`.
+    fileResults?: FileResult[]; // Set by `writeFile`.
+    containerItems?: ContainerPage; // Set by `listContainer`.
+    containerUrl?: string; // Set by `createContainer`.
+    etag?: string; // Set by `writeResource` with `usePatch` and by `patchResource`.
+    credentialResult?: CredentialResult; // Set by `fetchAccessGrants` with the default parameter key.
+    auditLog?: AuditEvent[]; // Set by `getAuditLog`.
+}
+
+/**
+ * A request handler of which `res.locals` is typed with the values exposed by the middlewares of this library.
+ */
+export type SolidRequestHandler = RequestHandler<Record<string, string>, unknown, unknown, Request["query"], SolidLocals>;
+
@@ -6,8 +6,11 @@ import {AccessGrant} from "@inrupt/solid-client-access-grants";
 declare module "express-session" {
     interface SessionData {
         solidSid: string;
+        pendingSolidSid?: string; // The Solid session id of a login that is waiting for the IdP callback.
         locale?: string;
         pods?: string[];
+        podsFetchedAt?: string; // When the Pods were looked up, they are looked up again after the `sessionPodsTtlSeconds` of `getPods`.
+        activePod?: string; // The Pod the user selected to work with.
         redirectUrl?: string; // Used to redirect the user after returning from IdP and some other cases.
         accessGrant?: string;
         accessGrantExpirationDate?: string;
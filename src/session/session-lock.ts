@@ -0,0 +1,118 @@
+import {IStorage} from "@inrupt/solid-client-authn-node";
+import {randomUUID} from "node:crypto";
+import log from "loglevel";
+
+/**
+ * Coordinates the fetching (and thereby refreshing) of Solid sessions, so the refresh token of a session is never
+ * used by two requests at the same time. Refresh tokens rotate, so a concurrent refresh invalidates the session.
+ */
+export interface SessionLock {
+    /**
+     * Runs the task while holding the lock of the session.
+     * @param {string} sessionId - The id of the session.
+     * @param {() => Promise<T>} task - The task to run, typically fetching the session from storage.
+     * @param {number} timeoutMs - The maximum time to wait for the lock and the task together.
+     * @returns {Promise<T>} The result of the task.
+     */
+    runExclusive<T>(sessionId: string, task: () => Promise<T>, timeoutMs: number): Promise<T>;
+}
+
+/**
+ * Session lock within a single Node process. Concurrent requests for the same session share the result of the running task.
+ * A caller that times out stops waiting, but the lock is only released when the task itself settles, so a hung refresh is never
+ * run twice at the same time.
+ */
+export class InProcessSessionLock implements SessionLock {
+    private readonly running = new Map<string, Promise<unknown>>();
+
+    async runExclusive<T>(sessionId: string, task: () => Promise<T>, timeoutMs: number): Promise<T> {
+        const running = this.running.get(sessionId);
+        if (running) {
+            // The same session is executing multiple requests simultaneously
+            log.debug(`Session ${sessionId} is already being fetched, so we wait for it to finish...`);
+            return withTimeout(running as Promise<T>, timeoutMs, sessionId);
+        }
+
+        const promise = task();
+        this.running.set(sessionId, promise);
+        promise.then(() => this.running.delete(sessionId), () => this.running.delete(sessionId));
+        return withTimeout(promise, timeoutMs, sessionId);
+    }
+}
+
+/**
+ * Session lock shared by several replicas through an `IStorage`, e.g. a `KeyValueStorage` on a shared Redis.
+ * Within the process, concurrent requests share the result of the running task like `InProcessSessionLock`. Across processes,
+ * a lock entry is written to the storage and read back to verify ownership; other replicas poll until it is released or expires.
+ * As `IStorage` has no atomic compare-and-set, the lock is best-effort: the ownership check narrows, but doesn't close, the race.
+ */
+export class StorageSessionLock implements SessionLock {
+    private readonly storage: IStorage;
+    private readonly lockTtlMs: number;
+    private readonly pollIntervalMs: number;
+    private readonly localLock = new InProcessSessionLock();
+
+    /**
+     * Creates an instance of StorageSessionLock.
+     * @param {IStorage} storage - The storage shared by the replicas.
+     * @param {Object} [options] - The time after which an unreleased lock expires (default 30s) and the polling interval (default 100ms).
+     */
+    constructor(storage: IStorage, options: { lockTtlMs?: number, pollIntervalMs?: number } = {}) {
+        this.storage = storage;
+        this.lockTtlMs = options.lockTtlMs ?? 30000;
+        this.pollIntervalMs = options.pollIntervalMs ?? 100;
+    }
+
+    async runExclusive<T>(sessionId: string, task: () => Promise<T>, timeoutMs: number): Promise<T> {
+        return this.localLock.runExclusive(sessionId, async () => {
+            const lockKey = `solidSessionLock:${sessionId}`;
+            const owner = await this.acquire(lockKey, Date.now() + timeoutMs);
+            try {
+                return await task();
+            } finally {
+                await this.release(lockKey, owner);
+            }
+        }, timeoutMs);
+    }
+
+    private async acquire(lockKey: string, deadline: number): Promise<string> {
+        const owner = randomUUID();
+        while (Date.now() < deadline) {
+            const current = await this.readLock(lockKey);
+            if (!current || current.expiresAt <= Date.now()) {
+                await this.storage.set(lockKey, JSON.stringify({ owner, expiresAt: Date.now() + this.lockTtlMs }));
+                await sleep(this.pollIntervalMs / 2);
+                if ((await this.readLock(lockKey))?.owner === owner) {
+                    return owner;
+                }
+            }
+            await sleep(this.pollIntervalMs);
+        }
+        throw new Error(`Timed out waiting for lock [${lockKey}].`);
+    }
+
+    private async release(lockKey: string, owner: string) {
+        if ((await this.readLock(lockKey))?.owner === owner) {
+            await this.storage.delete(lockKey);
+        }
+    }
+
+    private async readLock(lockKey: string): Promise<{ owner: string, expiresAt: number } | undefined> {
+        const lock = await this.storage.get(lockKey);
+        return lock ? JSON.parse(lock) : undefined;
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, sessionId: string): Promise<T> {
+    let timeout: NodeJS.Timeout;
+    return Promise.race([
+        promise,
+        new Promise<never>((resolve, reject) => {
+            timeout = setTimeout(() => reject(new Error(`Fetching session [${sessionId}] timed out after [${timeoutMs}] ms.`)), timeoutMs);
+        })
+    ]).finally(() => clearTimeout(timeout));
+}
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,107 @@
+import {BlankNode, NamedNode, Parser, Quad, Store} from "n3";
+import {Shape, ShapeDatatype, ShapeProperty} from "./shape";
+
+const SH = "http://www.w3.org/ns/shacl#";
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+
+const XSD_DATATYPES: Record<string, ShapeDatatype> = {
+    [`${XSD}string`]: "string",
+    [`${RDF}langString`]: "langString",
+    [`${XSD}integer`]: "integer",
+    [`${XSD}int`]: "integer",
+    [`${XSD}long`]: "integer",
+    [`${XSD}decimal`]: "decimal",
+    [`${XSD}double`]: "decimal",
+    [`${XSD}float`]: "decimal",
+    [`${XSD}boolean`]: "boolean",
+    [`${XSD}dateTime`]: "dateTime",
+    [`${XSD}date`]: "date"
+};
+
+// The SHACL predicates of node and property shapes that are mapped to a shape, or that don't constrain the data.
+const NODE_SHAPE_PREDICATES = ["targetClass", "property", "name", "description"].map(name => SH + name);
+const PROPERTY_SHAPE_PREDICATES = ["path", "datatype", "nodeKind", "class", "minCount", "maxCount", "in", "name", "description", "order", "group"]
+    .map(name => SH + name);
+
+/**
+ * Creates a shape from a SHACL node shape in Turtle. The core constraints are supported: `sh:targetClass`, and per
+ * `sh:property` the `sh:path` (a predicate), `sh:datatype`, `sh:nodeKind sh:IRI`, `sh:class`, `sh:minCount`, `sh:maxCount` and `sh:in`.
+ * Any other SHACL constraint, such as `sh:pattern`, `sh:minInclusive` or `sh:node`, is rejected rather than ignored.
+ * Properties are named after their `sh:name`, or the local name of their path. Without `sh:datatype`, the type of the values is unconstrained.
+ * @param {string} shaclTurtle - The SHACL shapes graph in Turtle.
+ * @param {string} [shapeIri] - The IRI of the node shape to use, the first node shape if absent.
+ * @returns {Shape} The shape.
+ * @throws {Error} Throws an error if the node shape isn't found or uses unsupported constraints.
+ */
+export function shapeFromShacl(shaclTurtle: string, shapeIri?: string): Shape {
+    const store = new Store(new Parser({ format: "Turtle" }).parse(shaclTurtle));
+
+    const nodeShape = shapeIri
+        ? new NamedNode(shapeIri)
+        : store.getSubjects(`${RDF}type`, `${SH}NodeShape`, null)[0];
+    if (!nodeShape) {
+        throw new Error(`No SHACL node shape [${shapeIri ?? ""}] found.`);
+    }
+    assertSupportedConstraints(store, nodeShape, NODE_SHAPE_PREDICATES);
+
+    const properties: Record<string, ShapeProperty> = {};
+    for (const propertyShape of store.getObjects(nodeShape, `${SH}property`, null)) {
+        const path = store.getObjects(propertyShape, `${SH}path`, null)[0];
+        if (!path || path.termType !== "NamedNode") {
+            throw new Error(`Only predicate paths are supported in SHACL property shapes.`);
+        }
+        assertSupportedConstraints(store, propertyShape, PROPERTY_SHAPE_PREDICATES);
+
+        const datatypeIri = store.getObjects(propertyShape, `${SH}datatype`, null)[0]?.value;
+        const nodeKind = store.getObjects(propertyShape, `${SH}nodeKind`, null)[0]?.value;
+        if (nodeKind && nodeKind !== `${SH}IRI`) {
+            throw new Error(`Unsupported node kind [${nodeKind}] for path [${path.value}].`);
+        }
+        const datatype: ShapeDatatype | undefined = nodeKind ? "iri" : datatypeIri ? XSD_DATATYPES[datatypeIri] : undefined;
+        if (datatypeIri && !datatype) {
+            throw new Error(`Unsupported datatype [${datatypeIri}] for path [${path.value}].`);
+        }
+
+        const minCount = store.getObjects(propertyShape, `${SH}minCount`, null)[0]?.value;
+        const maxCount = store.getObjects(propertyShape, `${SH}maxCount`, null)[0]?.value;
+        const shClass = store.getObjects(propertyShape, `${SH}class`, null)[0]?.value;
+        const inList = store.getObjects(propertyShape, `${SH}in`, null)[0];
+        const name = store.getObjects(propertyShape, `${SH}name`, null)[0]?.value ?? path.value.split(/[#/]/).pop()!;
+
+        properties[name] = {
+            path: path.value,
+            datatype,
+            class: shClass,
+            minCount: minCount !== undefined ? Number(minCount) : undefined,
+            maxCount: maxCount !== undefined ? Number(maxCount) : undefined,
+            in: inList ? readList(store, inList as NamedNode | BlankNode) : undefined
+        };
+    }
+
+    return {
+        targetClass: store.getObjects(nodeShape, `${SH}targetClass`, null)[0]?.value,
+        properties
+    };
+}
+
+function assertSupportedConstraints(store: Store, shape: Quad["subject"] | Quad["object"], supportedPredicates: string[]) {
+    for (const quad of store.getQuads(shape, null, null, null)) {
+        if (quad.predicate.value.startsWith(SH) && !supportedPredicates.includes(quad.predicate.value)) {
+            throw new Error(`Unsupported SHACL constraint [${quad.predicate.value}] in shape [${shape.value}].`);
+        }
+    }
+}
+
+function readList(store: Store, head: Quad["subject"]): string[] {
+    const values: string[] = [];
+    let node: Quad["subject"] | undefined = head;
+    while (node && node.value !== `${RDF}nil`) {
+        const first = store.getObjects(node, `${RDF}first`, null)[0];
+        if (first) {
+            values.push(first.value);
+        }
+        node = store.getObjects(node, `${RDF}rest`, null)[0] as Quad["subject"] | undefined;
+    }
+    return values;
+}
@@ -0,0 +1,132 @@
+import {SolidDataset, toRdfJsDataset} from "@inrupt/solid-client";
+import {Quad, Store} from "n3";
+
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+const RDF_LANG_STRING = "http://www.w3.org/1999/02/22-rdf-syntax-ns#langString";
+
+export type ShapeDatatype = "string" | "langString" | "integer" | "decimal" | "boolean" | "dateTime" | "date" | "iri";
+
+/**
+ * Describes a property of a shape: the predicate it maps to, the type of its values and how many values are allowed.
+ * Properties with a `maxCount` of 1 map to a single value, others to an array of values.
+ * Without `datatype`, the type of the values is unconstrained and they map to their lexical value or IRI.
+ */
+export interface ShapeProperty {
+    path: string;
+    datatype?: ShapeDatatype;
+    class?: string; // The class of which the values must be an instance in the resource, implies the `iri` datatype.
+    minCount?: number;
+    maxCount?: number;
+    in?: string[];
+}
+
+/**
+ * Describes the shape of the nodes in a resource, as a lightweight alternative to a SHACL node shape.
+ * The nodes of the `targetClass` are validated, or the resource itself if no target class is given.
+ */
+export interface Shape<T = Record<string, unknown>> {
+    targetClass?: string;
+    properties: { [K in keyof T]-?: ShapeProperty };
+}
+
+/**
+ * A validated node, mapped to an object with its IRI as `id`.
+ */
+export type ShapedObject<T> = T & { id: string };
+
+/**
+ * A violation of a shape by a node in a resource.
+ */
+export interface ShapeViolation {
+    focusNode: string;
+    path?: string;
+    message: string;
+}
+
+/**
+ * Validates the nodes in a SolidDataset against a shape and maps the conforming ones to objects.
+ * @param {SolidDataset} solidDataset - The SolidDataset to validate.
+ * @param {Shape<T>} shape - The shape to validate against.
+ * @param {string} resourceUrl - The URL of the resource, the focus node if the shape has no target class.
+ * @returns {{objects: ShapedObject<T>[], violations: ShapeViolation[]}} The mapped objects and the violations, which are empty if the dataset conforms.
+ */
+export function validateShape<T>(solidDataset: SolidDataset, shape: Shape<T>, resourceUrl: string): { objects: ShapedObject<T>[], violations: ShapeViolation[] } {
+    const store = new Store([...toRdfJsDataset(solidDataset)] as Quad[]);
+
+    const focusNodes = shape.targetClass
+        ? store.getSubjects(RDF_TYPE, shape.targetClass, null).map(subject => subject.value)
+        : [resourceUrl];
+    if (focusNodes.length === 0) {
+        return { objects: [], violations: [{ focusNode: resourceUrl, message: `No node of class [${shape.targetClass}] found.` }] };
+    }
+
+    const objects: ShapedObject<T>[] = [];
+    const violations: ShapeViolation[] = [];
+    for (const focusNode of [...new Set(focusNodes)]) {
+        const object: Record<string, unknown> = { id: focusNode };
+        const nodeViolations: ShapeViolation[] = [];
+
+        for (const [name, property] of Object.entries(shape.properties) as [string, ShapeProperty][]) {
+            const objectTerms = store.getObjects(focusNode, property.path, null);
+            if (objectTerms.length < (property.minCount ?? 0)) {
+                nodeViolations.push({ focusNode, path: property.path, message: `Expected at least [${property.minCount}] values, found [${objectTerms.length}].` });
+            }
+            if (property.maxCount !== undefined && objectTerms.length > property.maxCount) {
+                nodeViolations.push({ focusNode, path: property.path, message: `Expected at most [${property.maxCount}] values, found [${objectTerms.length}].` });
+            }
+
+            const values = objectTerms.map(term => {
+                const value = convertTerm(term, property.class ? "iri" : property.datatype);
+                if (value === undefined) {
+                    nodeViolations.push({ focusNode, path: property.path, message: `Value [${term.value}] is not of type [${property.class ? "iri" : property.datatype}].` });
+                } else if (property.class && store.countQuads(term, RDF_TYPE, property.class, null) === 0) {
+                    nodeViolations.push({ focusNode, path: property.path, message: `Value [${term.value}] is not an instance of [${property.class}].` });
+                } else if (property.in && !property.in.includes(term.value)) {
+                    nodeViolations.push({ focusNode, path: property.path, message: `Value [${term.value}] is not one of [${property.in.join(", ")}].` });
+                }
+                return value;
+            });
+            object[name] = property.maxCount === 1 ? values[0] : values;
+        }
+
+        if (nodeViolations.length === 0) {
+            objects.push(object as ShapedObject<T>);
+        }
+        violations.push(...nodeViolations);
+    }
+
+    return { objects, violations };
+}
+
+function convertTerm(term: Quad["object"], datatype: ShapeDatatype | undefined): unknown {
+    if (datatype === undefined) {
+        return term.value;
+    }
+    if (datatype === "iri") {
+        return term.termType === "NamedNode" ? term.value : undefined;
+    }
+    if (term.termType !== "Literal") {
+        return undefined;
+    }
+
+    const literalType = term.datatype.value;
+    switch (datatype) {
+        case "string":
+            return literalType === `${XSD}string` ? term.value : undefined;
+        case "langString":
+            return literalType === RDF_LANG_STRING || literalType === `${XSD}string` ? term.value : undefined;
+        case "integer":
+            return [`${XSD}integer`, `${XSD}int`, `${XSD}long`].includes(literalType) && /^[+-]?\d+$/.test(term.value)
+                ? Number(term.value) : undefined;
+        case "decimal":
+            return [`${XSD}decimal`, `${XSD}double`, `${XSD}float`, `${XSD}integer`].includes(literalType) && !isNaN(Number(term.value))
+                ? Number(term.value) : undefined;
+        case "boolean":
+            return literalType === `${XSD}boolean` && ["true", "false", "1", "0"].includes(term.value)
+                ? term.value === "true" || term.value === "1" : undefined;
+        case "dateTime":
+        case "date":
+            return literalType === `${XSD}${datatype}` && !isNaN(Date.parse(term.value)) ? new Date(term.value) : undefined;
+    }
+}
@@ -0,0 +1,83 @@
+import {IStorage} from "@inrupt/solid-client-authn-node";
+import {createHash} from "node:crypto";
+import {mkdir, readdir, readFile, rename, rm, writeFile} from "node:fs/promises";
+import path from "node:path";
+import {
+    CleanableStorage,
+    decodeStorageEntry,
+    encodeStorageEntry,
+    isStorageEntryExpired,
+    StorageEntry,
+    StorageOptions
+} from "../helper/storage-helper";
+
+/**
+ * `IStorage` implementation that stores each entry as a JSON file in a directory, so Solid sessions survive a restart.
+ * File names are hashes of the keys. Writes go through a temporary file, so a crash never leaves a partially written entry.
+ */
+export class FileSystemStorage implements IStorage, CleanableStorage {
+    private readonly directory: string;
+    private readonly options: StorageOptions;
+
+    /**
+     * Creates an instance of FileSystemStorage.
+     * @param {string} directory - The directory to store the entries in, created if it doesn't exist.
+     * @param {StorageOptions} [options] - The TTL and encryption options.
+     */
+    constructor(directory: string, options: StorageOptions = {}) {
+        this.directory = directory;
+        this.options = options;
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        return decodeStorageEntry(await this.readEntry(this.getFilePath(key)), this.options);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        const filePath = this.getFilePath(key);
+        const temporaryFilePath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+        await writeFile(temporaryFilePath, JSON.stringify(encodeStorageEntry(value, this.options)), { mode: 0o600 });
+        await rename(temporaryFilePath, filePath);
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.getFilePath(key), { force: true });
+    }
+
+    /**
+     * Removes all expired entries.
+     * @returns {Promise<number>} The number of removed entries.
+     */
+    async cleanup(): Promise<number> {
+        let fileNames: string[];
+        try {
+            fileNames = await readdir(this.directory);
+        } catch {
+            return 0;
+        }
+
+        let removed = 0;
+        for (const fileName of fileNames.filter(name => name.endsWith(".json"))) {
+            const filePath = path.join(this.directory, fileName);
+            const entry = await this.readEntry(filePath);
+            if (entry && isStorageEntryExpired(entry)) {
+                await rm(filePath, { force: true });
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    private getFilePath(key: string) {
+        return path.join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+    }
+
+    private async readEntry(filePath: string): Promise<StorageEntry | undefined> {
+        try {
+            return JSON.parse(await readFile(filePath, "utf-8"));
+        } catch {
+            return undefined;
+        }
+    }
+}
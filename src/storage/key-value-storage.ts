@@ -0,0 +1,90 @@
+import {IStorage} from "@inrupt/solid-client-authn-node";
+import log from "loglevel";
+import {
+    CleanableStorage,
+    decodeStorageEntry,
+    encodeStorageEntry,
+    isStorageEntryExpired,
+    StorageEntry,
+    StorageOptions
+} from "../helper/storage-helper";
+
+/**
+ * A minimal key/value client, to be implemented by a thin wrapper around e.g. a Redis client:
+ *
+ * ```
+ * const client: KeyValueClient = {
+ *     get: key => redis.get(key),
+ *     set: (key, value, ttlSeconds) => ttlSeconds ? redis.set(key, value, { EX: ttlSeconds }) : redis.set(key, value),
+ *     delete: key => redis.del(key)
+ * };
+ * ```
+ */
+export interface KeyValueClient {
+    get(key: string): Promise<string | null | undefined>;
+    set(key: string, value: string, ttlSeconds?: number): Promise<unknown>;
+    delete(key: string): Promise<unknown>;
+    keys?(prefix: string): Promise<string[]>; // Only needed for `cleanup`, when the client doesn't expire entries itself.
+}
+
+/**
+ * `IStorage` implementation on top of a generic key/value client, to share Solid sessions between replicas.
+ * The TTL is passed to the client so it can expire entries itself, and is also enforced when reading.
+ */
+export class KeyValueStorage implements IStorage, CleanableStorage {
+    private readonly client: KeyValueClient;
+    private readonly prefix: string;
+    private readonly options: StorageOptions;
+
+    /**
+     * Creates an instance of KeyValueStorage.
+     * @param {KeyValueClient} client - The key/value client.
+     * @param {StorageOptions & { prefix?: string }} [options] - The TTL and encryption options and the prefix of the keys (default `solid:`).
+     */
+    constructor(client: KeyValueClient, options: StorageOptions & { prefix?: string } = {}) {
+        this.client = client;
+        this.prefix = options.prefix ?? "solid:";
+        this.options = options;
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        const stored = await this.client.get(this.prefix + key);
+        return decodeStorageEntry(stored ? JSON.parse(stored) : undefined, this.options);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        await this.client.set(this.prefix + key, JSON.stringify(encodeStorageEntry(value, this.options)), this.options.ttlSeconds);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.delete(this.prefix + key);
+    }
+
+    /**
+     * Removes all expired entries, if the client can list its keys.
+     * Entries that can't be parsed are logged and skipped, so they don't stop the cleanup of the others.
+     * @returns {Promise<number>} The number of removed entries.
+     */
+    async cleanup(): Promise<number> {
+        if (!this.client.keys) {
+            return 0;
+        }
+
+        let removed = 0;
+        for (const key of await this.client.keys(this.prefix)) {
+            const stored = await this.client.get(key);
+            let entry: StorageEntry | undefined;
+            try {
+                entry = stored ? JSON.parse(stored) : undefined;
+            } catch (error) {
+                log.warn(`[KeyValueStorage] Skipping corrupt entry [${key}] during cleanup.\n${error}`);
+                continue;
+            }
+            if (typeof entry?.expiresAt === "number" && isStorageEntryExpired(entry)) {
+                await this.client.delete(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+}
@@ -0,0 +1,71 @@
+import {IStorage} from "@inrupt/solid-client-authn-node";
+import {
+    CleanableStorage,
+    decodeStorageEntry,
+    encodeStorageEntry,
+    StorageOptions
+} from "../helper/storage-helper";
+
+/**
+ * The subset of a synchronous SQLite database API used by `SqliteStorage`.
+ * Both `better-sqlite3` databases and `DatabaseSync` of `node:sqlite` implement it.
+ */
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): {
+        run(...parameters: unknown[]): unknown;
+        get(...parameters: unknown[]): unknown;
+    };
+}
+
+/**
+ * `IStorage` implementation that stores the entries in a table of a SQLite database, so Solid sessions survive a restart.
+ */
+export class SqliteStorage implements IStorage, CleanableStorage {
+    private readonly database: SqliteDatabase;
+    private readonly table: string;
+    private readonly options: StorageOptions;
+
+    /**
+     * Creates an instance of SqliteStorage, creating the table if it doesn't exist.
+     * @param {SqliteDatabase} database - The SQLite database, e.g. `new Database("sessions.db")` of `better-sqlite3`.
+     * @param {StorageOptions & { table?: string }} [options] - The TTL and encryption options and the table name (default `solid_session_storage`).
+     */
+    constructor(database: SqliteDatabase, options: StorageOptions & { table?: string } = {}) {
+        this.database = database;
+        this.table = options.table ?? "solid_session_storage";
+        this.options = options;
+
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+            throw new Error(`Invalid table name [${this.table}].`);
+        }
+        this.database.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)`);
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        const row = this.database.prepare(`SELECT value, expires_at FROM ${this.table} WHERE key = ?`).get(key) as
+            { value: string, expires_at: number | null } | undefined;
+        return decodeStorageEntry(row ? { value: row.value, expiresAt: row.expires_at ?? undefined } : undefined, this.options);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        const entry = encodeStorageEntry(value, this.options);
+        this.database.prepare(
+            `INSERT INTO ${this.table} (key, value, expires_at) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`
+        ).run(key, entry.value, entry.expiresAt ?? null);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.database.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+    }
+
+    /**
+     * Removes all expired entries.
+     * @returns {Promise<number>} The number of removed entries.
+     */
+    async cleanup(): Promise<number> {
+        const result = this.database.prepare(`DELETE FROM ${this.table} WHERE expires_at IS NOT NULL AND expires_at <= ?`).run(Date.now()) as
+            { changes?: number | bigint } | undefined;
+        return Number(result?.changes ?? 0);
+    }
+}
@@ -0,0 +1,170 @@
+import {PodService} from "@vito-nv/weare-core";
+import {buildThing, createSolidDataset, createThing, setThing, SolidDataset} from "@inrupt/solid-client";
+import {HttpError} from "../http-error/http-error";
+import {AccessMode, isResourceInScope, parseAccessGrantScope} from "../helper/access-grant-helper";
+
+const LDP = "http://www.w3.org/ns/ldp#";
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+
+/**
+ * The methods of the `PodService` called by the resource middlewares.
+ */
+type PodServiceMethods = "getSolidDataset" | "writeSolidDataset" | "deleteSolidDataset" | "getFile" | "writeFile";
+
+/**
+ * A stand-in for the `PodService`, keeping the resources and files of the pods in memory.
+ * Writing a resource creates the containers it is in, which list their children with `ldp:contains` like a Solid server.
+ * Unless `checkAccessGrants` is false, every operation requires an access grant covering the resource and access mode,
+ * so routes can be tested with the access grants of `createTestAccessGrant`. Failures are thrown as `HttpError`.
+ */
+export class InMemoryPodService implements Pick<PodService, PodServiceMethods> {
+    private readonly resources = new Map<string, SolidDataset | Blob>();
+    private readonly containers = new Set<string>();
+    private readonly checkAccessGrants: boolean;
+
+    /**
+     * Creates an instance of InMemoryPodService.
+     * @param {Object} [options] - Whether the access grants are checked against the resources and access modes (default true).
+     */
+    constructor(options: { checkAccessGrants?: boolean } = {}) {
+        this.checkAccessGrants = options.checkAccessGrants ?? true;
+    }
+
+    /**
+     * The stand-in typed as `PodService`, to bind to the resource middlewares, which only call the methods it implements.
+     */
+    asPodService(): PodService {
+        const podService: Pick<PodService, PodServiceMethods> = this;
+        return podService as PodService;
+    }
+
+    /**
+     * Stores a resource or file directly, without access grant, e.g. to arrange the state of the pod before a test.
+     * A URL ending with a slash, without resource, creates an empty container.
+     * @param {string} url - The URL of the resource or container.
+     * @param {SolidDataset | Blob} [resource] - The SolidDataset or the file.
+     */
+    setResource(url: string, resource?: SolidDataset | Blob) {
+        this.store(new URL(url).href, resource);
+    }
+
+    /**
+     * Reads a stored resource or file directly, without access grant, e.g. to assert on the state of the pod after a test.
+     * @param {string} url - The URL of the resource.
+     * @returns {SolidDataset | Blob | undefined} The SolidDataset or the file, or undefined if it doesn't exist.
+     */
+    getStoredResource(url: string): SolidDataset | Blob | undefined {
+        return this.resources.get(new URL(url).href);
+    }
+
+    /**
+     * Removes all resources, files and containers.
+     */
+    clear() {
+        this.resources.clear();
+        this.containers.clear();
+    }
+
+    async getSolidDataset(url: URL, accessGrant: unknown, correlationId?: string): Promise<SolidDataset> {
+        this.verifyAccessGrant(accessGrant, url, "Read");
+        if (url.href.endsWith("/")) {
+            return this.getContainer(url.href);
+        }
+
+        const resource = this.resources.get(url.href);
+        if (resource === undefined) {
+            throw new HttpError(`Resource [${url.href}] not found in the pod.`, 404);
+        }
+        if (resource instanceof Blob) {
+            throw new HttpError(`Resource [${url.href}] is a file, not a SolidDataset.`, 400);
+        }
+        return resource;
+    }
+
+    async writeSolidDataset(url: URL, solidDataset: SolidDataset, accessGrant: unknown, correlationId?: string): Promise<SolidDataset> {
+        this.verifyAccessGrant(accessGrant, url, "Write");
+        this.store(url.href, solidDataset);
+        return solidDataset;
+    }
+
+    async deleteSolidDataset(url: URL, accessGrant: unknown, correlationId?: string): Promise<void> {
+        this.verifyAccessGrant(accessGrant, url, "Write");
+        if (url.href.endsWith("/") && this.getChildUrls(url.href).length > 0) {
+            throw new HttpError(`Container [${url.href}] can't be deleted because it isn't empty.`, 409);
+        }
+        // Deleting a resource that doesn't exist succeeds, as `writeResource` deletes a resource before writing it.
+        this.containers.delete(url.href);
+        this.resources.delete(url.href);
+    }
+
+    async getFile(url: URL, accessGrant: unknown, correlationId?: string): Promise<Blob> {
+        this.verifyAccessGrant(accessGrant, url, "Read");
+        const resource = this.resources.get(url.href);
+        if (!(resource instanceof Blob)) {
+            throw new HttpError(`File [${url.href}] not found in the pod.`, 404);
+        }
+        return resource;
+    }
+
+    async writeFile(url: URL, file: Blob, accessGrant: unknown, correlationId?: string): Promise<void> {
+        this.verifyAccessGrant(accessGrant, url, "Write");
+        this.store(url.href, file);
+    }
+
+    private verifyAccessGrant(accessGrant: unknown, url: URL, mode: AccessMode) {
+        if (!this.checkAccessGrants) {
+            return;
+        }
+
+        const scope = parseAccessGrantScope(typeof accessGrant === "string" ? accessGrant : JSON.stringify(accessGrant));
+        if (scope.expirationDate && scope.expirationDate.getTime() < Date.now()) {
+            throw new HttpError("The access grant has expired.", 403);
+        }
+        if (!isResourceInScope(scope, url.href) || !scope.modes.includes(mode)) {
+            throw new HttpError(`The access grant doesn't allow [${mode}] access to [${url.href}].`, 403);
+        }
+    }
+
+    private getContainer(containerUrl: string): SolidDataset {
+        if (!this.containers.has(containerUrl)) {
+            throw new HttpError(`Container [${containerUrl}] not found in the pod.`, 404);
+        }
+
+        const childUrls = this.getChildUrls(containerUrl);
+        const containerThing = childUrls
+            .reduce(
+                (thing, childUrl) => thing.addUrl(`${LDP}contains`, childUrl),
+                buildThing(createThing({ url: containerUrl })).addUrl(RDF_TYPE, `${LDP}BasicContainer`)
+            )
+            .build();
+        return childUrls.reduce(
+            (container, childUrl) => setThing(container, buildThing(createThing({ url: childUrl }))
+                .addUrl(RDF_TYPE, childUrl.endsWith("/") ? `${LDP}BasicContainer` : `${LDP}Resource`)
+                .build()),
+            setThing(createSolidDataset(), containerThing)
+        );
+    }
+
+    /**
+     * Stores a resource, creating the containers it is in, or only the container if the URL ends with a slash.
+     */
+    private store(url: string, resource?: SolidDataset | Blob) {
+        const {origin, pathname} = new URL(url);
+        const segments = pathname.split("/").slice(1, -1);
+        this.containers.add(`${origin}/`);
+        segments.forEach((_, index) => this.containers.add(`${origin}/${segments.slice(0, index + 1).join("/")}/`));
+        if (resource !== undefined && !url.endsWith("/")) {
+            this.resources.set(url, resource);
+        }
+    }
+
+    /**
+     * Determines the direct children of a container, both resources and containers.
+     */
+    private getChildUrls(containerUrl: string): string[] {
+        return [...this.resources.keys(), ...this.containers]
+            .filter(url => url.startsWith(containerUrl) && url !== containerUrl &&
+                !url.slice(containerUrl.length).replace(/\/$/, "").includes("/"))
+            .sort();
+    }
+}
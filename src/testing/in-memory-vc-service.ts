@@ -0,0 +1,85 @@
+import {VcServiceV2} from "@vito-nv/weare-core";
+import {DataFactory, Store} from "n3";
+import {AccessGrantFilter, CredentialResult} from "@inrupt/solid-client-access-grants/dist/gConsent/query/query";
+import {TestAccessGrant} from "./test-session-data";
+
+const CREDENTIALS = "https://www.w3.org/2018/credentials#";
+const XSD_DATE_TIME = "http://www.w3.org/2001/XMLSchema#dateTime";
+
+/**
+ * A stand-in for the `VcServiceV2`, querying the access grants added to it instead of a VC service.
+ * The access grants are returned as credentials that can be read with the getters of `@inrupt/solid-client-access-grants`,
+ * such as `getExpirationDate`, and serialise to their JSON-LD representation, like the ones of the VC service.
+ */
+export class InMemoryVcService implements Pick<VcServiceV2, "fetchAccessGrants"> {
+    private readonly accessGrants: TestAccessGrant[] = [];
+    private readonly revoked = new Set<string>();
+
+    /**
+     * The stand-in typed as `VcServiceV2`, to bind to the VC middlewares, which only call `fetchAccessGrants`.
+     */
+    asVcService(): VcServiceV2 {
+        const vcService: Pick<VcServiceV2, "fetchAccessGrants"> = this;
+        return vcService as VcServiceV2;
+    }
+
+    /**
+     * Adds an access grant, e.g. created with `createTestAccessGrant`.
+     * @param {TestAccessGrant} accessGrant - The access grant.
+     */
+    addAccessGrant(accessGrant: TestAccessGrant) {
+        this.accessGrants.push(accessGrant);
+    }
+
+    /**
+     * Revokes an access grant, after which it only matches the `Revoked` status.
+     * @param {string} id - The id of the access grant.
+     */
+    revokeAccessGrant(id: string) {
+        this.revoked.add(id);
+    }
+
+    /**
+     * Removes all access grants.
+     */
+    clear() {
+        this.accessGrants.length = 0;
+        this.revoked.clear();
+    }
+
+    async fetchAccessGrants(correlationId: string | undefined, filter: AccessGrantFilter, authFetch?: typeof fetch): Promise<CredentialResult> {
+        const items = this.accessGrants
+            .filter(accessGrant => matchesFilter(accessGrant, filter, this.revoked.has(accessGrant.id)))
+            .map(toCredential);
+        return { items };
+    }
+}
+
+function matchesFilter(accessGrant: TestAccessGrant, filter: AccessGrantFilter, revoked: boolean): boolean {
+    const consent = accessGrant.credentialSubject.providedConsent;
+    const expired = !!accessGrant.expirationDate && new Date(accessGrant.expirationDate).getTime() < Date.now();
+    const status = revoked ? "Revoked" : expired ? "Expired" : "Active";
+
+    return (!filter.type || accessGrant.type.includes(filter.type)) &&
+        (!filter.status || filter.status === status) &&
+        (!filter.fromAgent || filter.fromAgent.href === new URL(accessGrant.credentialSubject.id).href) &&
+        (!filter.toAgent || (!!consent.isProvidedTo && filter.toAgent.href === new URL(consent.isProvidedTo).href)) &&
+        (!filter.resource || consent.forPersonalData.some(resource => filter.resource!.href === new URL(resource).href)) &&
+        (!filter.purpose || consent.forPurpose.some(purpose => filter.purpose!.href === new URL(purpose).href));
+}
+
+/**
+ * Converts an access grant to a credential dataset, containing the triples read by the getters of the middlewares.
+ */
+function toCredential(accessGrant: TestAccessGrant): CredentialResult["items"][number] {
+    const {namedNode, literal, quad} = DataFactory;
+    const store = new Store();
+    if (accessGrant.expirationDate) {
+        store.addQuad(quad(
+            namedNode(accessGrant.id),
+            namedNode(`${CREDENTIALS}expirationDate`),
+            literal(accessGrant.expirationDate, namedNode(XSD_DATE_TIME))
+        ));
+    }
+    return Object.assign(store, { id: accessGrant.id, toJSON: () => accessGrant });
+}
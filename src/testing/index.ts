@@ -0,0 +1,5 @@
+export { TestSessionStorage, TestSessionOptions } from "./test-session-storage";
+export { createTestAccessGrant, createTestSessionData, TestAccessGrant, TestAccessGrantOptions, TestSessionDataOptions } from "./test-session-data";
+export { InMemoryPodService } from "./in-memory-pod-service";
+export { InMemoryVcService } from "./in-memory-vc-service";
+export { createTestApp, TestApp, TestAppOptions } from "./test-app";
@@ -0,0 +1,82 @@
+import express, {Express, NextFunction, Request, Response} from "express";
+import {randomUUID} from "node:crypto";
+import {Session, SessionData} from "express-session";
+import {errorHandler} from "../http-error/error-handler";
+import {createRequestContextMiddleware, RequestContextOptions} from "../middleware/context-middleware";
+
+/**
+ * Options of the application created by `createTestApp`.
+ */
+export interface TestAppOptions {
+    routes: (app: Express) => void; // Adds the routes under test, e.g. with the middlewares bound to the in-memory services.
+    sessionData?: Partial<SessionData>; // The ExpressJS session data of the user, e.g. created with `createTestSessionData`.
+    requestContext?: RequestContextOptions; // The options of the request context, without log prefix by default.
+    maskInternalErrors?: boolean; // Whether the error handler masks the message of unexpected errors, false by default.
+}
+
+/**
+ * An application created by `createTestApp`, with the ExpressJS session shared by its requests.
+ */
+export interface TestApp {
+    app: Express;
+    session: Session & Partial<SessionData>;
+}
+
+/**
+ * Creates an ExpressJS application to test routes using the middlewares, e.g. with `supertest`: `request(app).get("/resource")`.
+ * Every request gets the same ExpressJS session, which stands in for the session cookie of a single user, so changes made by the
+ * middlewares, such as an access grant stored by `ensureAccessGrant`, can be asserted on and carry over to the next request.
+ * The request context is initialised before and the `errorHandler` is added after the routes.
+ *
+ * @param {TestAppOptions} options - The routes, the session data of the user and the options of the request context and error handler.
+ * @returns {TestApp} The application and its ExpressJS session.
+ */
+export function createTestApp(options: TestAppOptions): TestApp {
+    const app = express();
+    const session = createTestExpressSession(options.sessionData ?? {});
+
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        req.session = session;
+        next();
+    });
+    app.use(createRequestContextMiddleware({ logPrefix: false, ...options.requestContext }));
+    options.routes(app);
+    app.use(errorHandler.bind({ maskInternalErrors: options.maskInternalErrors ?? false }));
+
+    return { app, session };
+}
+
+/**
+ * Creates an ExpressJS session holding the session data, of which saving does nothing, destroying removes the data and
+ * regenerating removes the data and assigns a new id.
+ */
+function createTestExpressSession(sessionData: Partial<SessionData>): Session & Partial<SessionData> {
+    const clear = (callback?: (error?: unknown) => void) => {
+        Object.keys(session)
+            .filter(key => !["id", "cookie"].includes(key) && typeof session[key as keyof typeof session] !== "function")
+            .forEach(key => delete session[key as keyof SessionData]);
+        callback?.();
+        return session;
+    };
+    const done = (callback?: (error?: unknown) => void) => {
+        callback?.();
+        return session;
+    };
+
+    const regenerate = (callback?: (error?: unknown) => void) => {
+        Object.assign(session, { id: randomUUID() });
+        return clear(callback);
+    };
+
+    const session = Object.assign({
+        id: randomUUID(),
+        cookie: { originalMaxAge: null },
+        regenerate,
+        destroy: clear,
+        reload: done,
+        save: done,
+        touch: () => session,
+        resetMaxAge: () => session
+    }, sessionData) as unknown as Session & Partial<SessionData>;
+    return session;
+}
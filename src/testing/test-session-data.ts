@@ -0,0 +1,106 @@
+import {randomUUID} from "node:crypto";
+import {SessionData} from "express-session";
+import {AccessMode} from "../helper/access-grant-helper";
+
+/**
+ * The JSON-LD representation of an access grant, as stored in `req.session.accessGrant`.
+ */
+export type TestAccessGrant = {
+    id: string;
+    type: string[];
+    issuer: string;
+    issuanceDate: string;
+    expirationDate?: string;
+    credentialSubject: {
+        id: string;
+        providedConsent: {
+            mode: string[];
+            hasStatus: string;
+            forPersonalData: string[];
+            forPurpose: string[];
+            isProvidedTo?: string;
+            inherit: boolean;
+        };
+    };
+    [key: string]: unknown;
+};
+
+/**
+ * Options of an access grant created by `createTestAccessGrant`.
+ */
+export interface TestAccessGrantOptions {
+    ownerWebId: string; // The WebID of the user who gave consent, owning the resources.
+    resources: string[];
+    requestorWebId?: string; // The WebID of the application the access is granted to.
+    modes?: AccessMode[]; // `Read` by default.
+    purposes?: string[];
+    inherit?: boolean; // True by default, granting access to the resources in the granted containers.
+    id?: string;
+    issuer?: string;
+    expirationDate?: Date | null; // One hour from now by default, null for an access grant that doesn't expire.
+}
+
+/**
+ * Options of the session data created by `createTestSessionData`.
+ */
+export interface TestSessionDataOptions {
+    solidSid: string; // The id of the Solid session, e.g. of a session added to the `TestSessionStorage`.
+    pods?: string[];
+    activePod?: string;
+    accessGrant?: TestAccessGrant | string;
+    accessGrantExpirationDate?: Date; // The expiration date of the access grant by default.
+    locale?: string;
+}
+
+/**
+ * Creates an access grant in the format issued by the VC service, of which the scope is checked by `verifyAccessGrantScope`.
+ * The access grant isn't signed, so it is only accepted by middlewares that don't verify it with the VC service.
+ *
+ * @param {TestAccessGrantOptions} options - The owner, requestor, resources, modes, purposes and expiration date of the access grant.
+ * @returns {TestAccessGrant} The access grant.
+ */
+export function createTestAccessGrant(options: TestAccessGrantOptions): TestAccessGrant {
+    const expirationDate = options.expirationDate === undefined ? new Date(Date.now() + 60 * 60 * 1000) : options.expirationDate;
+    return {
+        "@context": [
+            "https://www.w3.org/2018/credentials/v1",
+            "https://schema.inrupt.com/credentials/v1.jsonld"
+        ],
+        id: options.id ?? `urn:uuid:${randomUUID()}`,
+        type: ["VerifiableCredential", "SolidAccessGrant"],
+        issuer: options.issuer ?? "https://vc.example.org",
+        issuanceDate: new Date().toISOString(),
+        ...(expirationDate ? { expirationDate: expirationDate.toISOString() } : {}),
+        credentialSubject: {
+            id: options.ownerWebId,
+            providedConsent: {
+                mode: (options.modes ?? ["Read"]).map(mode => `http://www.w3.org/ns/auth/acl#${mode}`),
+                hasStatus: "https://w3id.org/GConsent#ConsentStatusExplicitlyGiven",
+                forPersonalData: options.resources,
+                forPurpose: options.purposes ?? [],
+                ...(options.requestorWebId ? { isProvidedTo: options.requestorWebId } : {}),
+                inherit: options.inherit ?? true
+            }
+        }
+    };
+}
+
+/**
+ * Creates the ExpressJS session data of a logged in user, as populated by the login flow and `ensureAccessGrant`.
+ *
+ * @param {TestSessionDataOptions} options - The Solid session id, the Pods and the access grant of the user.
+ * @returns {Partial<SessionData>} The session data.
+ */
+export function createTestSessionData(options: TestSessionDataOptions): Partial<SessionData> {
+    const accessGrant = typeof options.accessGrant === "string" ? JSON.parse(options.accessGrant) : options.accessGrant;
+    const accessGrantExpirationDate = options.accessGrantExpirationDate?.toISOString() ?? accessGrant?.expirationDate;
+
+    return {
+        solidSid: options.solidSid,
+        ...(options.pods ? { pods: options.pods, podsFetchedAt: new Date().toISOString() } : {}),
+        ...(options.activePod ? { activePod: options.activePod } : {}),
+        ...(accessGrant ? { accessGrant: JSON.stringify(accessGrant) } : {}),
+        ...(accessGrantExpirationDate ? { accessGrantExpirationDate } : {}),
+        ...(options.locale ? { locale: options.locale } : {})
+    };
+}
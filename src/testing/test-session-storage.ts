@@ -0,0 +1,70 @@
+import {randomUUID} from "node:crypto";
+import {IStorage, Session} from "@inrupt/solid-client-authn-node";
+import {SessionFactory} from "../helper/session-helper";
+
+/**
+ * Options of a pre-authenticated session added to the `TestSessionStorage`.
+ */
+export interface TestSessionOptions {
+    webId: string;
+    sessionId?: string; // A random id by default.
+    isLoggedIn?: boolean; // True by default, false to test an expired or logged out session.
+    fetch?: typeof fetch; // The authenticated fetch of the session, failing every request by default.
+}
+
+/**
+ * An in-memory `IStorage` holding pre-authenticated sessions, to test routes using `getSession` without an identity provider.
+ * Passing its `sessionFactory` to the session middlewares, e.g. `createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory })`,
+ * makes them return the added sessions as they are, instead of restoring and refreshing their tokens.
+ * Values stored by the Inrupt libraries themselves, e.g. on logout, are kept in memory as well.
+ */
+export class TestSessionStorage implements IStorage {
+    private readonly values = new Map<string, string>();
+    private readonly sessions = new Map<string, Session>();
+
+    async get(key: string): Promise<string | undefined> {
+        return this.values.get(key);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        this.values.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.values.delete(key);
+    }
+
+    /**
+     * Adds a pre-authenticated session.
+     * @param {TestSessionOptions} options - The WebID, session id, login state and authenticated fetch of the session.
+     * @returns {Session} The session, of which `info.sessionId` is to be stored in `req.session.solidSid`.
+     */
+    addSession(options: TestSessionOptions): Session {
+        const sessionId = options.sessionId ?? randomUUID();
+        const session = new Session({
+            sessionInfo: { sessionId, webId: options.webId, isLoggedIn: options.isLoggedIn ?? true },
+            storage: this,
+            keepAlive: false
+        });
+        const sessionFetch = options.fetch ?? (async (input: RequestInfo | URL) => {
+            throw new Error(`The test session [${sessionId}] has no fetch to request [${input}] with.`);
+        });
+        Object.assign(session, { fetch: sessionFetch });
+
+        this.sessions.set(sessionId, session);
+        return session;
+    }
+
+    /**
+     * Removes a session, after which the session middlewares consider it unauthenticated.
+     * @param {string} sessionId - The id of the session.
+     */
+    removeSession(sessionId: string) {
+        this.sessions.delete(sessionId);
+    }
+
+    /**
+     * Returns the added sessions, to be passed as `sessionFactory` to the session middlewares.
+     */
+    readonly sessionFactory: SessionFactory = async sessionId => this.sessions.get(sessionId);
+}
@@ -0,0 +1,61 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {LruCache} from "../../src";
+
+describe("LruCache", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("evicts the least recently used entry when full", () => {
+        const cache = new LruCache<string, number>({ maxEntries: 2, ttlMs: 60000 });
+        cache.set("a", 1);
+        cache.set("b", 2);
+        cache.get("a");
+        cache.set("c", 3);
+
+        expect([...cache.keys()]).toEqual(["a", "c"]);
+    });
+
+    it("expires entries after their TTL", () => {
+        vi.useFakeTimers({ now: 0 });
+        const cache = new LruCache<string, number>({ maxEntries: 2, ttlMs: 1000 });
+        cache.set("a", 1);
+        cache.set("b", 2, 2000);
+
+        vi.setSystemTime(1000);
+        expect(cache.get("a")).toBeUndefined();
+        expect(cache.get("b")).toBe(2);
+    });
+
+    it("bounds the total size of the entries, also when entries are replaced, deleted or expire", () => {
+        vi.useFakeTimers({ now: 0 });
+        const cache = new LruCache<string, string>({ maxEntries: 10, ttlMs: 1000, maxSize: 10, sizeOf: value => value.length });
+        cache.set("a", "aaaa");
+        cache.set("b", "bbbb");
+        cache.set("a", "aa");
+        cache.set("c", "cccc");
+
+        expect([...cache.keys()]).toEqual(["b", "a", "c"]);
+
+        cache.set("d", "dddd");
+        expect([...cache.keys()]).toEqual(["a", "c", "d"]);
+
+        cache.delete("c");
+        cache.set("e", "eeeeee");
+        expect([...cache.keys()]).toEqual(["d", "e"]);
+
+        vi.setSystemTime(1000);
+        expect(cache.get("d")).toBeUndefined();
+        expect(cache.get("e")).toBeUndefined();
+        cache.set("f", "ffffffffff");
+        expect([...cache.keys()]).toEqual(["f"]);
+    });
+
+    it("doesn't store an entry larger than the maximum size", () => {
+        const cache = new LruCache<string, string>({ maxEntries: 10, ttlMs: 1000, maxSize: 4, sizeOf: value => value.length });
+        cache.set("a", "aaa");
+        cache.set("b", "bbbbb");
+
+        expect([...cache.keys()]).toEqual(["a"]);
+    });
+});
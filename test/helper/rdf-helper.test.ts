@@ -0,0 +1,80 @@
+import {describe, expect, it} from "vitest";
+import {DataFactory, Quad, Store} from "n3";
+import {fromRdfJsDataset, toRdfJsDataset} from "@inrupt/solid-client";
+import {parseRdf, serialiseRdf} from "../../src/helper/rdf-helper";
+
+const BASE = "https://pod.example.org/alice/profile";
+const SCHEMA = "https://schema.org/";
+const XSD_INTEGER = "http://www.w3.org/2001/XMLSchema#integer";
+
+const {blankNode, defaultGraph, literal, namedNode, quad} = DataFactory;
+
+const asNTriples = async (source: string, contentType: string) =>
+    (await serialiseRdf(await parseRdf(source, contentType, BASE), "application/n-triples")).trim().split("\n").sort();
+
+describe("rdf-helper", () => {
+    describe("parseRdf", () => {
+        it.each([
+            ["text/turtle", `@prefix schema: <${SCHEMA}>. <#me> schema:name "Alice".`],
+            ["text/turtle; charset=utf-8", `<#me> <${SCHEMA}name> "Alice".`],
+            ["application/n-triples", `<${BASE}#me> <${SCHEMA}name> "Alice".`],
+            ["application/n-quads", `<${BASE}#me> <${SCHEMA}name> "Alice".`],
+            ["application/trig", `{ <#me> <${SCHEMA}name> "Alice". }`],
+            ["application/ld+json", JSON.stringify({ "@id": "#me", [`${SCHEMA}name`]: "Alice" })]
+        ])("parses %s resolving relative IRIs against the base IRI", async (contentType, source) => {
+            expect(await asNTriples(source, contentType)).toEqual([`<${BASE}#me> <${SCHEMA}name> "Alice" .`]);
+        });
+
+        it("rejects an unsupported media type with a 415", async () => {
+            await expect(parseRdf("<#me> a <#Person>.", "text/n3", BASE)).rejects.toMatchObject({ statusCode: 415 });
+            await expect(parseRdf(`{"name": "Alice"}`, "application/json", BASE)).rejects.toMatchObject({ statusCode: 415 });
+        });
+
+        it.each([
+            ["text/turtle", `<#me> <${SCHEMA}name> "Alice"`],
+            ["application/n-triples", `<#me> <${SCHEMA}name> "Alice".`],
+            ["application/ld+json", `{"@id": "#me",`]
+        ])("rejects a malformed %s document with a 400", async (contentType, source) => {
+            await expect(parseRdf(source, contentType, BASE)).rejects.toMatchObject({ statusCode: 400 });
+        });
+    });
+
+    describe("serialiseRdf", () => {
+        it("rejects an unsupported media type with a 406", async () => {
+            await expect(serialiseRdf(await parseRdf("", "text/turtle", BASE), "text/html")).rejects.toMatchObject({ statusCode: 406 });
+        });
+
+        it("writes JSON-LD that parses to the same triples, with datatypes, languages and blank nodes", async () => {
+            const me = namedNode(`${BASE}#me`);
+            const address = blankNode("address");
+            const quads = [
+                quad(me, namedNode("http://www.w3.org/1999/02/22-rdf-syntax-ns#type"), namedNode(`${SCHEMA}Person`), defaultGraph()),
+                quad(me, namedNode(`${SCHEMA}name`), literal("Alice"), defaultGraph()),
+                quad(me, namedNode(`${SCHEMA}description`), literal("Bonjour", "fr"), defaultGraph()),
+                quad(me, namedNode(`${SCHEMA}age`), literal("42", namedNode(XSD_INTEGER)), defaultGraph()),
+                quad(me, namedNode(`${SCHEMA}address`), address, defaultGraph()),
+                quad(address, namedNode(`${SCHEMA}addressLocality`), literal("Ghent"), defaultGraph())
+            ];
+            const solidDataset = fromRdfJsDataset(new Store(quads));
+
+            const jsonLd = await serialiseRdf(solidDataset, "application/ld+json");
+            const nodes = JSON.parse(jsonLd) as Record<string, unknown>[];
+            const parsed = [...toRdfJsDataset(await parseRdf(jsonLd, "application/ld+json", BASE))] as Quad[];
+
+            expect(nodes).toContainEqual(expect.objectContaining({
+                "@id": `${BASE}#me`,
+                "@type": [`${SCHEMA}Person`],
+                [`${SCHEMA}description`]: [{ "@value": "Bonjour", "@language": "fr" }],
+                [`${SCHEMA}age`]: [{ "@value": "42", "@type": XSD_INTEGER }]
+            }));
+            expect(parsed).toHaveLength(quads.length);
+            const age = parsed.find(parsedQuad => parsedQuad.predicate.value === `${SCHEMA}age`)!.object;
+            expect(age.termType === "Literal" && age.datatype.value).toBe(XSD_INTEGER);
+            const description = parsed.find(parsedQuad => parsedQuad.predicate.value === `${SCHEMA}description`)!.object;
+            expect(description.termType === "Literal" && description.language).toBe("fr");
+            const addressNode = parsed.find(parsedQuad => parsedQuad.predicate.value === `${SCHEMA}address`)!.object;
+            expect(addressNode.termType).toBe("BlankNode");
+            expect(parsed.find(parsedQuad => parsedQuad.predicate.value === `${SCHEMA}addressLocality`)!.subject.equals(addressNode)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,125 @@
+import {describe, expect, it} from "vitest";
+import {HttpError, ResiliencePolicy} from "../../src";
+
+const POD_RESOURCE = "https://pod.example.org/alice/profile";
+
+describe("resilience", () => {
+    const createPolicy = () => new ResiliencePolicy({ retryBaseDelayMs: 1, failureThreshold: 3, resetTimeoutMs: 50 });
+
+    it("retries a transient failure of an idempotent operation", async () => {
+        let attempts = 0;
+        const result = await createPolicy().execute("read", POD_RESOURCE, async () => {
+            if (++attempts < 2) {
+                throw new HttpError("Bad gateway", 502);
+            }
+            return "dataset";
+        });
+
+        expect(result).toBe("dataset");
+        expect(attempts).toBe(2);
+    });
+
+    it.each(["write", "delete"] as const)("doesn't retry a %s", async operation => {
+        let attempts = 0;
+        const call = createPolicy().execute(operation, POD_RESOURCE, async () => {
+            attempts++;
+            throw new HttpError("Service unavailable", 503);
+        });
+
+        await expect(call).rejects.toMatchObject({ statusCode: 503, code: "UPSTREAM_UNAVAILABLE" });
+        expect(attempts).toBe(1);
+    });
+
+    it("doesn't retry a call that can't be made again", async () => {
+        let attempts = 0;
+        const read = createPolicy().execute("read", POD_RESOURCE, async () => {
+            attempts++;
+            throw new HttpError("Bad gateway", 502);
+        }, { replayable: false });
+
+        await expect(read).rejects.toMatchObject({ statusCode: 502 });
+        expect(attempts).toBe(1);
+    });
+
+    it("times out a call that doesn't support aborting, ignoring its outcome", async () => {
+        const policy = new ResiliencePolicy({ timeoutMs: 10, retries: 0 });
+        let finished = false;
+
+        const write = policy.execute("write", POD_RESOURCE, async () => {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            finished = true;
+        });
+
+        await expect(write).rejects.toMatchObject({
+            statusCode: 504,
+            code: "UPSTREAM_TIMEOUT",
+            detail: "An upstream service didn't respond in time, the change may still be carried out."
+        });
+        expect(finished).toBe(false);
+    });
+
+    it("retries a read that timed out", async () => {
+        const policy = new ResiliencePolicy({ timeoutMs: 10, retryBaseDelayMs: 1 });
+        let attempts = 0;
+
+        const result = await policy.execute("read", POD_RESOURCE, () =>
+            ++attempts < 2 ? new Promise<string>(() => undefined) : Promise.resolve("dataset")
+        );
+
+        expect(result).toBe("dataset");
+        expect(attempts).toBe(2);
+    });
+
+    it("passes a non-transient failure on unchanged", async () => {
+        const notFound = new HttpError("Not found", 404);
+        let attempts = 0;
+        const read = createPolicy().execute("read", POD_RESOURCE, async () => {
+            attempts++;
+            throw notFound;
+        });
+
+        await expect(read).rejects.toBe(notFound);
+        expect(attempts).toBe(1);
+    });
+
+    it("times out and aborts a slow call", async () => {
+        const policy = new ResiliencePolicy({ timeoutMs: 10, retries: 0 });
+        let signal: AbortSignal | undefined;
+        const read = policy.execute("read", POD_RESOURCE, abortSignal => {
+            signal = abortSignal;
+            return new Promise(() => undefined);
+        });
+
+        await expect(read).rejects.toMatchObject({ statusCode: 504, code: "UPSTREAM_TIMEOUT" });
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it("maps other upstream failures to a 502", async () => {
+        const read = createPolicy().execute("read", POD_RESOURCE, async () => {
+            throw new TypeError("fetch failed");
+        });
+
+        await expect(read).rejects.toMatchObject({ statusCode: 502, code: "UPSTREAM_ERROR" });
+    });
+
+    it("opens the circuit of a failing pod origin and closes it after a successful trial call", async () => {
+        const policy = createPolicy();
+        let attempts = 0;
+        const failing = async () => {
+            attempts++;
+            throw new HttpError("Internal server error", 500);
+        };
+
+        await expect(policy.execute("read", POD_RESOURCE, failing)).rejects.toMatchObject({ statusCode: 502 });
+        expect(attempts).toBe(3);
+
+        await expect(policy.execute("read", "https://pod.example.org/alice/other", failing))
+            .rejects.toMatchObject({ statusCode: 503, code: "UPSTREAM_CIRCUIT_OPEN" });
+        expect(attempts).toBe(3);
+        expect(await policy.execute("read", "https://other-pod.example.org/bob/profile", async () => "dataset")).toBe("dataset");
+
+        await new Promise(resolve => setTimeout(resolve, 60));
+        expect(await policy.execute("read", POD_RESOURCE, async () => "dataset")).toBe("dataset");
+        expect(await policy.execute("read", POD_RESOURCE, async () => "dataset")).toBe("dataset");
+    });
+});
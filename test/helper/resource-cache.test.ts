@@ -0,0 +1,131 @@
+import {describe, expect, it, vi} from "vitest";
+import {createSolidDataset} from "@inrupt/solid-client";
+import {ResourceCache} from "../../src";
+
+const WEB_ID = "https://id.example.org/alice/profile/card#me";
+const RESOURCE = "https://pod.example.org/alice/notes/note";
+
+describe("ResourceCache", () => {
+    /**
+     * Answers the conditional HEAD requests of the cache for a resource of which the ETag is changed by `change`.
+     */
+    const createPod = (headers: Record<string, string> = {}) => {
+        let version = 1;
+        const podFetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+            const etag = `"${version}"`;
+            if (new Headers(init?.headers).get("If-None-Match") === etag) {
+                return new Response(null, { status: 304, headers: { ETag: etag } });
+            }
+            return new Response(null, { headers: { ETag: etag, ...headers } });
+        });
+        return { podFetch, change: () => version++ };
+    };
+
+    it("reads an uncached resource with the loader and revalidates it afterwards", async () => {
+        const cache = new ResourceCache();
+        const {podFetch} = createPod();
+        const load = vi.fn(async () => new Blob(["note"]));
+
+        const first = await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+        const second = await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+
+        expect(first).toMatchObject({ etag: "\"1\"", size: 4 });
+        expect(second.file).toBe(first.file);
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(podFetch).toHaveBeenCalledTimes(2);
+        expect(podFetch.mock.calls[1][1]).toMatchObject({ method: "HEAD", headers: { "If-None-Match": "\"1\"" } });
+    });
+
+    it("reloads a resource that changed", async () => {
+        const cache = new ResourceCache();
+        const {podFetch, change} = createPod();
+        const load = vi.fn(async () => createSolidDataset());
+
+        await cache.fetch(WEB_ID, RESOURCE, "dataset", podFetch, load);
+        change();
+        const resource = await cache.fetch(WEB_ID, RESOURCE, "dataset", podFetch, load);
+
+        expect(resource.etag).toBe("\"2\"");
+        expect(load).toHaveBeenCalledTimes(2);
+        expect(podFetch.mock.calls[0][1]?.headers).toMatchObject({ Accept: "text/turtle" });
+    });
+
+    it("uses a resource without revalidating it within the maximum age", async () => {
+        const cache = new ResourceCache({ maxAgeMs: 60000 });
+        const {podFetch, change} = createPod();
+        const load = vi.fn(async () => new Blob(["note"]));
+
+        await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+        change();
+        await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+
+        expect(podFetch).toHaveBeenCalledTimes(1);
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("caches per user", async () => {
+        const cache = new ResourceCache();
+        const {podFetch} = createPod();
+        const load = vi.fn(async () => new Blob(["note"]));
+
+        await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+        await cache.fetch("https://id.example.org/bob/profile/card#me", RESOURCE, "file", podFetch, load);
+
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("doesn't cache a resource without validators", async () => {
+        const cache = new ResourceCache();
+        const podFetch = vi.fn(async () => new Response(null));
+        const load = vi.fn(async () => new Blob(["note"]));
+
+        await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+        await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("passes the failure of the pod on and drops the cached resource", async () => {
+        const cache = new ResourceCache();
+        const {podFetch} = createPod();
+        const load = vi.fn(async () => new Blob(["note"]));
+        await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+
+        podFetch.mockResolvedValueOnce(new Response(null, { status: 403 }));
+        await expect(cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load)).rejects.toMatchObject({ statusCode: 403 });
+        await cache.fetch(WEB_ID, RESOURCE, "file", podFetch, load);
+
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("invalidates a resource and the listing of its container for all users", async () => {
+        const cache = new ResourceCache();
+        const {podFetch} = createPod();
+        const load = vi.fn(async () => new Blob(["note"]));
+        const container = "https://pod.example.org/alice/notes/";
+        const other = "https://pod.example.org/alice/notes/other";
+        for (const url of [RESOURCE, container, other]) {
+            await cache.fetch(WEB_ID, url, "file", podFetch, load);
+        }
+
+        cache.invalidate(RESOURCE);
+        for (const url of [RESOURCE, container, other]) {
+            await cache.fetch(WEB_ID, url, "file", podFetch, load);
+        }
+
+        expect(load).toHaveBeenCalledTimes(5);
+    });
+
+    it("bounds the total size of the cached resources", async () => {
+        const cache = new ResourceCache({ maxBytes: 10 });
+        const {podFetch} = createPod();
+        const load = vi.fn(async () => new Blob(["123456"]));
+
+        await cache.fetch(WEB_ID, `${RESOURCE}-1`, "file", podFetch, load);
+        await cache.fetch(WEB_ID, `${RESOURCE}-2`, "file", podFetch, load);
+        await cache.fetch(WEB_ID, `${RESOURCE}-2`, "file", podFetch, load);
+        await cache.fetch(WEB_ID, `${RESOURCE}-1`, "file", podFetch, load);
+
+        expect(load).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,53 @@
+import {randomBytes} from "node:crypto";
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {decodeStorageEntry, encodeStorageEntry} from "../../src/helper/storage-helper";
+
+const ENCRYPTION_KEY = randomBytes(32);
+
+describe("storage-helper", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("encrypts a value and decrypts it again", () => {
+        const entry = encodeStorageEntry("refresh-token", { encryptionKey: ENCRYPTION_KEY });
+
+        expect(entry.value).not.toContain("refresh-token");
+        expect(decodeStorageEntry(entry, { encryptionKey: ENCRYPTION_KEY.toString("base64") })).toBe("refresh-token");
+    });
+
+    it("uses a new IV for every encryption", () => {
+        const options = { encryptionKey: ENCRYPTION_KEY };
+
+        expect(encodeStorageEntry("refresh-token", options).value).not.toBe(encodeStorageEntry("refresh-token", options).value);
+    });
+
+    it("rejects a tampered value", () => {
+        const entry = encodeStorageEntry("refresh-token", { encryptionKey: ENCRYPTION_KEY });
+        const [prefix, data] = [entry.value.slice(0, 7), Buffer.from(entry.value.slice(7), "base64")];
+        data[data.length - 1] ^= 1;
+
+        expect(() => decodeStorageEntry({ value: prefix + data.toString("base64") }, { encryptionKey: ENCRYPTION_KEY })).toThrow();
+    });
+
+    it("rejects decrypting with another key or without key", () => {
+        const entry = encodeStorageEntry("refresh-token", { encryptionKey: ENCRYPTION_KEY });
+
+        expect(() => decodeStorageEntry(entry, { encryptionKey: randomBytes(32) })).toThrow();
+        expect(() => decodeStorageEntry(entry, {})).toThrow("no encryption key is configured");
+    });
+
+    it("rejects a key that isn't 32 bytes long", () => {
+        expect(() => encodeStorageEntry("refresh-token", { encryptionKey: randomBytes(16) })).toThrow("32 bytes");
+    });
+
+    it("expires an entry after its TTL", () => {
+        vi.useFakeTimers({ now: 0 });
+        const entry = encodeStorageEntry("refresh-token", { ttlSeconds: 60 });
+
+        vi.setSystemTime(59_999);
+        expect(decodeStorageEntry(entry, {})).toBe("refresh-token");
+        vi.setSystemTime(60_000);
+        expect(decodeStorageEntry(entry, {})).toBeUndefined();
+    });
+});
@@ -0,0 +1,46 @@
+import {describe, expect, it} from "vitest";
+import request from "supertest";
+import {HttpError} from "../../src";
+import {createTestApp} from "../../src/testing";
+
+describe("error-handler", () => {
+    const createApp = (error: Error) => createTestApp({
+        routes: app => {
+            app.get("/error", () => {
+                throw error;
+            });
+        }
+    }).app;
+
+    it("sends an HttpError as problem details with its code and extensions", async () => {
+        const response = await request(createApp(new HttpError("Invalid body", 422, { code: "SHAPE_VIOLATION", extensions: { violations: [] } })))
+            .get("/error");
+
+        expect(response.status).toBe(422);
+        expect(response.type).toBe("application/problem+json");
+        expect(response.body).toMatchObject({
+            type: "about:blank",
+            title: "Unprocessable Entity",
+            status: 422,
+            detail: "Invalid body",
+            instance: "/error",
+            code: "SHAPE_VIOLATION",
+            violations: []
+        });
+    });
+
+    it("doesn't let extensions overwrite the standard members", async () => {
+        const extensions = { status: 200, title: "OK", detail: "All good", type: "https://example.org/ok", instance: "/other", retryAfter: 5 };
+
+        const response = await request(createApp(new HttpError("Service unavailable", 503, { extensions }))).get("/error");
+
+        expect(response.body).toMatchObject({
+            type: "about:blank",
+            title: "Service Unavailable",
+            status: 503,
+            detail: "Service unavailable",
+            instance: "/error",
+            retryAfter: 5
+        });
+    });
+});
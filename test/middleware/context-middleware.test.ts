@@ -0,0 +1,84 @@
+import {beforeAll, beforeEach, describe, expect, it} from "vitest";
+import log from "loglevel";
+import request from "supertest";
+import {createSessionMiddleware, RequestContextOptions} from "../../src";
+import {createTestApp, createTestSessionData, TestSessionStorage} from "../../src/testing";
+
+const WEB_ID = "https://id.example.org/alice/profile/card#me";
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+describe("context-middleware", () => {
+    const messages: unknown[][] = [];
+
+    beforeAll(() => {
+        // Captures the loglevel output, below the prefix that the middleware wraps around the method factory.
+        log.methodFactory = () => (...message: unknown[]) => {
+            messages.push(message);
+        };
+        log.setLevel("info");
+    });
+
+    beforeEach(() => {
+        messages.length = 0;
+    });
+
+    const createApp = (options: RequestContextOptions = {}) => {
+        const storage = new TestSessionStorage();
+        const session = storage.addSession({ webId: WEB_ID, sessionId: "session-1" });
+        return createTestApp({
+            sessionData: createTestSessionData({ solidSid: session.info.sessionId }),
+            requestContext: options,
+            routes: app => {
+                const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                app.get("/", getSession, (req, res) => {
+                    log.info("Handling the request.");
+                    res.sendStatus(204);
+                });
+            }
+        }).app;
+    };
+
+    it("uses the correlation ID of the X-Correlation-Id header and echoes it", async () => {
+        const response = await request(createApp()).get("/").set("X-Correlation-Id", "correlation-1");
+
+        expect(response.headers["x-correlation-id"]).toBe("correlation-1");
+    });
+
+    it("takes the trace id of a valid traceparent header", async () => {
+        const response = await request(createApp()).get("/").set("traceparent", `00-${TRACE_ID}-00f067aa0ba902b7-01`);
+
+        expect(response.headers["x-correlation-id"]).toBe(TRACE_ID);
+    });
+
+    it.each([
+        ["a malformed traceparent", "traceparent", `00-${TRACE_ID}-01`],
+        ["an invalid correlation ID", "X-Correlation-Id", "id\twith <script>"],
+        ["an oversized correlation ID", "X-Correlation-Id", "a".repeat(129)]
+    ])("generates a correlation ID instead of %s", async (description, header, value) => {
+        const response = await request(createApp()).get("/").set(header, value);
+
+        expect(response.headers["x-correlation-id"]).toMatch(/^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/);
+    });
+
+    it("echoes the correlation ID in the configured response header", async () => {
+        const response = await request(createApp({ responseHeader: "X-Request-Id" })).get("/").set("X-Correlation-Id", "correlation-1");
+
+        expect(response.headers["x-request-id"]).toBe("correlation-1");
+        expect(response.headers["x-correlation-id"]).toBeUndefined();
+    });
+
+    it("prefixes the log output with the correlation ID, WebID and session id", async () => {
+        await request(createApp({ logPrefix: true })).get("/").set("X-Correlation-Id", "correlation-1");
+
+        expect(messages).toContainEqual([`[correlationId=correlation-1 webId=${WEB_ID} sessionId=session-1]`, "Handling the request."]);
+    });
+
+    it("doesn't prefix the log output with logPrefix false", async () => {
+        await request(createApp({ logPrefix: true })).get("/");
+        messages.length = 0;
+
+        await request(createApp({ logPrefix: false })).get("/").set("X-Correlation-Id", "correlation-1");
+
+        expect(messages).toEqual([["Handling the request."]]);
+    });
+});
@@ -0,0 +1,240 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import express from "express";
+import {Server} from "node:http";
+import {AddressInfo} from "node:net";
+import request from "supertest";
+import {
+    createNotificationMiddleware,
+    createSessionMiddleware,
+    createSolidAuthRouter,
+    NotificationRelay,
+    NotificationRelayOptions
+} from "../../src";
+import {createTestApp, createTestSessionData, TestSessionStorage} from "../../src/testing";
+import {StubNotificationPod} from "../stubs/notification-pod";
+
+const WEB_ID = "https://id.example.org/alice/profile/card#me";
+const POD = "https://pod.example.org/alice/";
+const TOPIC = `${POD}notes/`;
+const WEBHOOK_BASE_URL = "https://app.example.org/webhook";
+
+/**
+ * An event stream opened with fetch, of which the received text is read until it contains the expected events.
+ */
+interface EventStream {
+    status: number;
+    contentType: string | null;
+    readUntil: (text: string) => Promise<string>;
+    readToEnd: () => Promise<string>;
+    disconnect: () => void;
+}
+
+describe("notification-middleware", () => {
+    let server: Server | undefined;
+    let relay: NotificationRelay | undefined;
+
+    afterEach(async () => {
+        relay?.closeAll();
+        server?.closeAllConnections();
+        await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+        server = undefined;
+        relay = undefined;
+    });
+
+    const startApp = async (pod: StubNotificationPod, options: Partial<NotificationRelayOptions> = {}) => {
+        relay = new NotificationRelay({ webSocketFactory: pod.webSocketFactory, ...options });
+        const notificationRelay = relay;
+        const storage = new TestSessionStorage();
+        const session = storage.addSession({ webId: WEB_ID, fetch: pod.fetch });
+        const {app} = createTestApp({
+            sessionData: createTestSessionData({ solidSid: session.info.sessionId, pods: [POD] }),
+            routes: app => {
+                const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                const notifications = createNotificationMiddleware({ notificationRelay });
+                app.use(createSolidAuthRouter({ oidcIssuer: "https://idp.example.org", baseUrl: "http://localhost", storage, notificationRelay }));
+                app.get("/notifications", getSession, notifications.relayNotifications);
+                app.post("/webhook/:token", express.text({ type: "*/*" }), notifications.receiveWebhookNotification);
+                app.post("/unparsed/:token", notifications.receiveWebhookNotification);
+            }
+        });
+
+        server = await new Promise<Server>(resolve => {
+            const listening: Server = app.listen(0, "127.0.0.1", () => resolve(listening));
+        });
+        return { app, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+    };
+
+    const openEventStream = async (baseUrl: string, topic = TOPIC): Promise<EventStream> => {
+        const controller = new AbortController();
+        const response = await fetch(`${baseUrl}/notifications?resourceUrl=${encodeURIComponent(topic)}`, { signal: controller.signal });
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let text = "";
+        const read = async (until?: string) => {
+            while (until === undefined || !text.includes(until)) {
+                const {value, done} = await reader.read();
+                if (done) {
+                    break;
+                }
+                text += value;
+            }
+            return text;
+        };
+        return {
+            status: response.status,
+            contentType: response.headers.get("Content-Type"),
+            readUntil: read,
+            readToEnd: () => read(),
+            disconnect: () => controller.abort()
+        };
+    };
+
+    it("subscribes to the notifications of the topic and relays them as events", async () => {
+        const pod = new StubNotificationPod(POD);
+        const {baseUrl} = await startApp(pod);
+
+        const stream = await openEventStream(baseUrl);
+        expect(stream.status).toBe(200);
+        expect(stream.contentType).toContain("text/event-stream");
+        await stream.readUntil(": subscribed");
+
+        expect([...pod.channels.values()]).toEqual([expect.objectContaining({ topic: TOPIC })]);
+        expect(pod.sockets).toHaveLength(1);
+        pod.sockets[0].send(JSON.stringify({ id: "urn:notification:1", type: "Update", object: TOPIC }));
+
+        const text = await stream.readUntil("event: Update");
+        expect(text).toContain(`event: Update\nid: urn:notification:1\ndata: ${JSON.stringify({ id: "urn:notification:1", type: "Update", object: TOPIC })}\n\n`);
+        stream.disconnect();
+    });
+
+    it("shares the subscription of a topic between the event streams of a session", async () => {
+        const pod = new StubNotificationPod(POD);
+        const {baseUrl} = await startApp(pod);
+
+        const first = await openEventStream(baseUrl);
+        const second = await openEventStream(baseUrl);
+        await Promise.all([first.readUntil(": subscribed"), second.readUntil(": subscribed")]);
+        pod.sockets[0].send(JSON.stringify({ type: "Add", object: `${TOPIC}a` }));
+
+        expect(pod.channels.size).toBe(1);
+        expect(await first.readUntil("event: Add")).toContain("event: Add");
+        expect(await second.readUntil("event: Add")).toContain("event: Add");
+        first.disconnect();
+        second.disconnect();
+    });
+
+    it("closes the subscription when the last client disconnects", async () => {
+        const pod = new StubNotificationPod(POD);
+        const {baseUrl} = await startApp(pod);
+        const first = await openEventStream(baseUrl);
+        const second = await openEventStream(baseUrl);
+        await Promise.all([first.readUntil(": subscribed"), second.readUntil(": subscribed")]);
+
+        first.disconnect();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(pod.channels.size).toBe(1);
+        expect(pod.sockets[0].closed).toBe(false);
+
+        second.disconnect();
+        await vi.waitFor(() => expect(pod.channels.size).toBe(0));
+        expect(pod.sockets[0].closed).toBe(true);
+    });
+
+    it("ends the event streams when the WebSocket of the channel closes", async () => {
+        const pod = new StubNotificationPod(POD);
+        const {baseUrl} = await startApp(pod);
+        const stream = await openEventStream(baseUrl);
+        await stream.readUntil(": subscribed");
+
+        pod.sockets[0].drop();
+
+        await stream.readToEnd();
+        await vi.waitFor(() => expect(pod.channels.size).toBe(0));
+    });
+
+    it("ends the event streams and closes the subscriptions of the session on logout", async () => {
+        const pod = new StubNotificationPod(POD);
+        const {app, baseUrl} = await startApp(pod);
+        const stream = await openEventStream(baseUrl);
+        await stream.readUntil(": subscribed");
+
+        expect((await request(app).post("/logout")).status).toBe(204);
+
+        await stream.readToEnd();
+        await vi.waitFor(() => expect(pod.channels.size).toBe(0));
+        expect(pod.sockets[0].closed).toBe(true);
+    });
+
+    it("passes the status of the pod to the error handler if subscribing fails", async () => {
+        const pod = new StubNotificationPod(POD);
+        pod.failSubscriptions = true;
+        const {app, baseUrl} = await startApp(pod);
+
+        const response = await request(app).get("/notifications").query({ resourceUrl: TOPIC });
+
+        expect(response.status).toBe(403);
+        expect(response.headers["content-type"]).not.toContain("text/event-stream");
+        expect(pod.sockets).toHaveLength(0);
+
+        // The failed subscription isn't kept, so the next client subscribes again.
+        pod.failSubscriptions = false;
+        const stream = await openEventStream(baseUrl);
+        expect(stream.status).toBe(200);
+        await stream.readUntil(": subscribed");
+        expect(pod.channels.size).toBe(1);
+        stream.disconnect();
+    });
+
+    it("rejects a topic outside the user's Pods", async () => {
+        const pod = new StubNotificationPod(POD);
+        const {app} = await startApp(pod);
+
+        const response = await request(app).get("/notifications").query({ resourceUrl: "https://pod.example.org/bob/" });
+
+        expect(response.status).toBe(403);
+        expect(pod.channels.size).toBe(0);
+    });
+
+    describe("receiveWebhookNotification", () => {
+        it("relays the notifications posted to the webhook of the subscription", async () => {
+            const pod = new StubNotificationPod(POD);
+            const {app, baseUrl} = await startApp(pod, { channelType: "WebhookChannel2023", webhookBaseUrl: WEBHOOK_BASE_URL });
+            const stream = await openEventStream(baseUrl);
+            await stream.readUntil(": subscribed");
+            const [channel] = pod.channels.values();
+            expect(channel.sendTo?.startsWith(`${WEBHOOK_BASE_URL}/`)).toBe(true);
+
+            const response = await request(app)
+                .post(`/webhook/${channel.sendTo!.split("/").pop()}`)
+                .set("Content-Type", "application/ld+json")
+                .send(JSON.stringify({ type: "Delete", object: `${TOPIC}a` }));
+
+            expect(response.status).toBe(202);
+            expect(await stream.readUntil("event: Delete")).toContain(`data: ${JSON.stringify({ type: "Delete", object: `${TOPIC}a` })}`);
+            stream.disconnect();
+        });
+
+        it("rejects a token that doesn't belong to an open subscription", async () => {
+            const {app} = await startApp(new StubNotificationPod(POD), { channelType: "WebhookChannel2023", webhookBaseUrl: WEBHOOK_BASE_URL });
+
+            const response = await request(app).post("/webhook/unknown").set("Content-Type", "application/ld+json").send("{}");
+
+            expect(response.status).toBe(404);
+        });
+
+        it("rejects a missing body", async () => {
+            const {app} = await startApp(new StubNotificationPod(POD), { channelType: "WebhookChannel2023", webhookBaseUrl: WEBHOOK_BASE_URL });
+
+            const response = await request(app).post("/webhook/token");
+
+            expect(response.status).toBe(400);
+        });
+
+        it("rejects a body that wasn't parsed", async () => {
+            const {app} = await startApp(new StubNotificationPod(POD), { channelType: "WebhookChannel2023", webhookBaseUrl: WEBHOOK_BASE_URL });
+
+            const response = await request(app).post("/unparsed/token").set("Content-Type", "application/ld+json").send("{}");
+
+            expect(response.status).toBe(400);
+        });
+    });
+});
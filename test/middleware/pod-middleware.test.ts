@@ -0,0 +1,131 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import request from "supertest";
+import {SessionData} from "express-session";
+import {
+    createPodMiddleware,
+    createSessionMiddleware,
+    LruCache,
+    PodMiddlewareOptions
+} from "../../src";
+import {createTestApp, createTestSessionData, TestSessionStorage} from "../../src/testing";
+
+const WEB_ID = "https://id.example.org/alice/profile/card#me";
+const POD = "https://pod.example.org/alice/";
+const OTHER_POD = "https://pod.example.org/alice-work/";
+
+describe("pod-middleware", () => {
+    // The WebID profile is fetched unauthenticated, with the global fetch.
+    let storages: string[];
+    const profileFetch = vi.fn(async () => new Response(
+        storages.map(storage => `<${WEB_ID}> <http://www.w3.org/ns/pim/space#storage> <${storage}>.`).join("\n"),
+        { headers: { "Content-Type": "text/turtle" } }
+    ));
+
+    beforeEach(() => {
+        storages = [];
+        profileFetch.mockClear();
+        vi.stubGlobal("fetch", profileFetch);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const createApp = (pods: string[], sessionData: Partial<SessionData> = {}, options: PodMiddlewareOptions = {}) => {
+        const storage = new TestSessionStorage();
+        const session = storage.addSession({ webId: WEB_ID });
+        return createTestApp({
+            sessionData: { ...createTestSessionData({ solidSid: session.info.sessionId, pods }), ...sessionData },
+            routes: app => {
+                const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                const {getPods, getActivePod} = createPodMiddleware(options);
+                app.get("/pods", getSession, getPods, (req, res) => {
+                    res.send({ pods: res.locals.pods });
+                });
+                app.get("/pod", getSession, getPods, getActivePod, (req, res) => {
+                    res.send({ pod: res.locals.pod });
+                });
+            }
+        });
+    };
+
+    it("exposes the Pods in the session", async () => {
+        const response = await request(createApp([POD]).app).get("/pods");
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ pods: [POD] });
+        expect(profileFetch).not.toHaveBeenCalled();
+    });
+
+    it("rejects a user without Pods", async () => {
+        const response = await request(createApp([]).app).get("/pods");
+
+        expect(response.status).toBe(404);
+    });
+
+    it("looks up the Pods again when none were found before, without caching an empty result", async () => {
+        const podCache = new LruCache<string, string[]>({ maxEntries: 10, ttlMs: 60000 });
+        const {app, session} = createApp([], {}, { podCache });
+
+        expect((await request(app).get("/pods")).status).toBe(404);
+        expect(podCache.get(WEB_ID)).toBeUndefined();
+
+        storages.push(POD);
+        const response = await request(app).get("/pods");
+
+        expect(response.body).toEqual({ pods: [POD] });
+        expect(session.pods).toEqual([POD]);
+        expect(podCache.get(WEB_ID)).toEqual([POD]);
+        expect(profileFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("looks up the Pods again when the Pods in the session have expired", async () => {
+        storages.push(OTHER_POD);
+        const podsFetchedAt = new Date(Date.now() - 61 * 1000).toISOString();
+        const {app, session} = createApp([POD], { podsFetchedAt }, { sessionPodsTtlSeconds: 60 });
+
+        const response = await request(app).get("/pods");
+
+        expect(response.body).toEqual({ pods: [OTHER_POD] });
+        expect(profileFetch).toHaveBeenCalledTimes(1);
+        expect(Date.parse(session.podsFetchedAt!)).toBeGreaterThan(Date.parse(podsFetchedAt));
+    });
+
+    it("uses the single Pod of the user as active Pod", async () => {
+        const response = await request(createApp([POD]).app).get("/pod");
+
+        expect(response.body).toEqual({ pod: POD });
+    });
+
+    it("requires a user with several Pods to select one", async () => {
+        const response = await request(createApp([POD, OTHER_POD]).app).get("/pod");
+
+        expect(response.status).toBe(409);
+    });
+
+    it("remembers the selected Pod in the session", async () => {
+        const {app, session} = createApp([POD, OTHER_POD]);
+
+        const selected = await request(app).get("/pod").query({ pod: OTHER_POD });
+        const remembered = await request(app).get("/pod");
+
+        expect(selected.body).toEqual({ pod: OTHER_POD });
+        expect(remembered.body).toEqual({ pod: OTHER_POD });
+        expect(session.activePod).toBe(OTHER_POD);
+    });
+
+    it("rejects a Pod that isn't one of the user's Pods", async () => {
+        const response = await request(createApp([POD]).app).get("/pod").set("X-Pod", "https://pod.example.org/bob/");
+
+        expect(response.status).toBe(404);
+    });
+
+    it("rejects several Pods in the query parameter", async () => {
+        const {app, session} = createApp([POD, OTHER_POD]);
+
+        const response = await request(app).get("/pod").query(`pod=${encodeURIComponent(POD)}&pod=${encodeURIComponent(OTHER_POD)}`);
+
+        expect(response.status).toBe(400);
+        expect(session.activePod).toBeUndefined();
+    });
+});
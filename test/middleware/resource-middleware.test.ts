@@ -0,0 +1,853 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import express from "express";
+import {Server} from "node:http";
+import request from "supertest";
+import {buildThing, createSolidDataset, createThing, getStringNoLocale, getThing, setThing, SolidDataset} from "@inrupt/solid-client";
+import {
+    AuditEvent,
+    AuditSink,
+    createResourceMiddleware,
+    createSessionMiddleware,
+    FileResult,
+    HttpError,
+    ResiliencePolicy,
+    ResourceCache,
+    ResourceMiddlewareOptions,
+    ResourceUrlSource
+} from "../../src";
+import {
+    createTestAccessGrant,
+    createTestApp,
+    createTestSessionData,
+    InMemoryPodService,
+    TestAccessGrantOptions,
+    TestSessionStorage
+} from "../../src/testing";
+import {StubAccessGrantPod} from "../stubs/access-grant-pod";
+import {UploadedFile} from "express-fileupload";
+
+const WEB_ID = "https://id.example.org/alice/profile/card#me";
+const POD = "https://pod.example.org/alice/";
+const SCHEMA_NAME = "https://schema.org/name";
+const LDP_CONTAINS = "http://www.w3.org/ns/ldp#contains";
+
+function createPerson(url: string, name: string): SolidDataset {
+    return setThing(createSolidDataset(), buildThing(createThing({ url: `${url}#me` })).addStringNoLocale(SCHEMA_NAME, name).build());
+}
+
+describe("resource-middleware", () => {
+    let pod: InMemoryPodService;
+
+    beforeEach(() => {
+        pod = new InMemoryPodService();
+    });
+
+    const createApp = (accessGrant: Partial<TestAccessGrantOptions> = {}, options: Partial<ResourceMiddlewareOptions> = {}, pods = [POD]) => {
+        const storage = new TestSessionStorage();
+        const session = storage.addSession({ webId: WEB_ID });
+        return createTestApp({
+            sessionData: createTestSessionData({
+                solidSid: session.info.sessionId,
+                pods,
+                accessGrant: createTestAccessGrant({ ownerWebId: WEB_ID, resources: [POD], modes: ["Read", "Write"], ...accessGrant })
+            }),
+            routes: app => {
+                const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                const resources = createResourceMiddleware({ podService: pod.asPodService(), urlPolicy: {}, allowRecursive: true, ...options });
+                app.get("/resource", getSession, resources.getResource, resources.sendResource);
+                app.put("/resource", getSession, express.text({ type: "*/*" }), resources.writeResource, (req, res) => {
+                    res.sendStatus(204);
+                });
+                app.delete("/resource", getSession, resources.deleteResource, (req, res) => {
+                    res.sendStatus(204);
+                });
+                // Stands in for express-fileupload, taking the files from a JSON body.
+                app.post("/files", getSession, express.json(), (req, res, next) => {
+                    const body = req.body as { files: { name: string, content: string }[] };
+                    req.files = { files: body.files.map(file => ({
+                        name: file.name, data: Buffer.from(file.content), size: file.content.length, mimetype: "text/plain"
+                    }) as UploadedFile) };
+                    next();
+                }, resources.writeFile, (req, res) => {
+                    res.send(res.locals.fileResults);
+                });
+                app.get("/container", getSession, resources.listContainer, (req, res) => {
+                    res.send(res.locals.containerItems);
+                });
+            }
+        }).app;
+    };
+
+    // Requests the pod directly with the access grant, as the streaming and patching middlewares do, instead of via the pod service.
+    const createPodApp = (accessGrantPod: StubAccessGrantPod, options: Partial<ResourceMiddlewareOptions> = {}) => {
+        const storage = new TestSessionStorage();
+        const session = storage.addSession({ webId: WEB_ID, fetch: accessGrantPod.sessionFetch });
+        return createTestApp({
+            sessionData: createTestSessionData({
+                solidSid: session.info.sessionId,
+                pods: [POD],
+                accessGrant: createTestAccessGrant({ ownerWebId: WEB_ID, resources: [POD], modes: ["Read", "Write"] })
+            }),
+            routes: app => {
+                const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                const resources = createResourceMiddleware({ podService: pod.asPodService(), ...options });
+                app.get("/file", getSession, resources.getFile);
+                app.put("/file", getSession, resources.writeFile, (req, res) => {
+                    res.sendStatus(204);
+                });
+                app.put("/resource", getSession, express.text({ type: "*/*" }), resources.writeResource, (req, res) => {
+                    res.sendStatus(204);
+                });
+                app.patch("/resource", getSession, express.text({ type: "*/*" }), resources.patchResource, (req, res) => {
+                    res.sendStatus(204);
+                });
+            }
+        }).app;
+    };
+
+    it("rejects an invalid resource URL source when the middlewares are created", () => {
+        expect(() => createResourceMiddleware({ podService: pod.asPodService(), resourceUrl: { query: "" } })).toThrow("Invalid resource URL source");
+        expect(() => createResourceMiddleware({ podService: pod.asPodService(), resourceUrl: { queryParameter: "url" } as unknown as ResourceUrlSource }))
+            .toThrow("Invalid resource URL source");
+    });
+
+    it("reads a resource from the pod", async () => {
+        pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+
+        const response = await request(createApp()).get("/resource")
+            .query({ resourceUrl: `${POD}profile` })
+            .set("Accept", "application/n-triples");
+
+        expect(response.status).toBe(200);
+        expect(response.type).toBe("application/n-triples");
+        expect(response.text).toContain(`<${POD}profile#me> <${SCHEMA_NAME}> "Alice"`);
+    });
+
+    it("answers a 404 for a resource that doesn't exist", async () => {
+        const response = await request(createApp()).get("/resource").query({ resourceUrl: `${POD}missing` });
+
+        expect(response.status).toBe(404);
+    });
+
+    it("rejects a resource that isn't covered by the access grant", async () => {
+        pod.setResource(`${POD}private/diary`, createPerson(`${POD}private/diary`, "Alice"));
+
+        const response = await request(createApp({ resources: [`${POD}public/`] })).get("/resource")
+            .query({ resourceUrl: `${POD}private/diary` });
+
+        expect(response.status).toBe(403);
+    });
+
+    it("records the pod operations to the audit sink", async () => {
+        pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+        const events: AuditEvent[] = [];
+        const auditSink: AuditSink = { record: async event => { events.push(event); } };
+        const app = createApp({}, { auditSink });
+
+        await request(app).get("/resource").query({ resourceUrl: `${POD}profile` });
+        await request(app).get("/resource").query({ resourceUrl: `${POD}missing` });
+
+        expect(events).toMatchObject([
+            { webId: WEB_ID, resourceUrl: `${POD}profile`, operation: "read", outcome: "success" },
+            { webId: WEB_ID, resourceUrl: `${POD}missing`, operation: "read", outcome: "failure", statusCode: 404 }
+        ]);
+    });
+
+    it("doesn't let a failing or hanging audit sink fail or delay the request", async () => {
+        pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+        const failing: AuditSink = { record: async () => { throw new Error("Disk full"); } };
+        const hanging: AuditSink = { record: () => new Promise(() => undefined) };
+
+        expect((await request(createApp({}, { auditSink: failing })).get("/resource").query({ resourceUrl: `${POD}profile` })).status).toBe(200);
+        expect((await request(createApp({}, { auditSink: hanging })).get("/resource").query({ resourceUrl: `${POD}profile` })).status).toBe(200);
+    });
+
+    it("rejects a resource outside the user's Pods", async () => {
+        const response = await request(createApp()).get("/resource").query({ resourceUrl: "https://pod.example.org/bob/profile" });
+
+        expect(response.status).toBe(403);
+        expect(response.body.code).toBe("RESOURCE_URL_NOT_ALLOWED");
+    });
+
+    it("only allows the user's Pods without a configured URL policy", async () => {
+        pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+        const app = createApp({}, { urlPolicy: undefined });
+
+        expect((await request(app).get("/resource").query({ resourceUrl: `${POD}profile` })).status).toBe(200);
+        expect((await request(app).get("/resource").query({ resourceUrl: "https://attacker.example.org/alice/" })).status).toBe(403);
+    });
+
+    it("rejects every URL without configured URL policy on a route without getPods and Pods in the session", async () => {
+        pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+
+        const rejected = await request(createApp({}, { urlPolicy: undefined }, [])).get("/resource").query({ resourceUrl: `${POD}profile` });
+        const allowed = await request(createApp({}, { urlPolicy: { allowedOrigins: ["https://pod.example.org"] } }, [])).get("/resource")
+            .query({ resourceUrl: `${POD}profile` });
+
+        expect(rejected.status).toBe(403);
+        expect(rejected.body.code).toBe("RESOURCE_URL_NOT_ALLOWED");
+        expect(rejected.body.detail).toContain("The middleware getPods should be used first");
+        expect(allowed.status).toBe(200);
+    });
+
+    it("writes a resource to the pod", async () => {
+        const response = await request(createApp()).put("/resource")
+            .query({ resourceUrl: `${POD}profile` })
+            .set("Content-Type", "text/turtle")
+            .send(`<#me> <${SCHEMA_NAME}> "Alice".`);
+
+        expect(response.status).toBe(204);
+        const stored = pod.getStoredResource(`${POD}profile`) as SolidDataset;
+        expect(getStringNoLocale(getThing(stored, `${POD}profile#me`)!, SCHEMA_NAME)).toBe("Alice");
+    });
+
+    it("rejects writing without body and keeps the resource", async () => {
+        pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+
+        const response = await request(createApp()).put("/resource")
+            .query({ resourceUrl: `${POD}profile` })
+            .set("Content-Type", "text/turtle");
+
+        expect(response.status).toBe(400);
+        expect(response.body.code).toBe("BODY_MISSING");
+        const stored = pod.getStoredResource(`${POD}profile`) as SolidDataset;
+        expect(getStringNoLocale(getThing(stored, `${POD}profile#me`)!, SCHEMA_NAME)).toBe("Alice");
+    });
+
+    it("rejects writing without Write access", async () => {
+        const response = await request(createApp({ modes: ["Read"] })).put("/resource")
+            .query({ resourceUrl: `${POD}profile` })
+            .set("Content-Type", "text/turtle")
+            .send(`<#me> <${SCHEMA_NAME}> "Alice".`);
+
+        expect(response.status).toBe(403);
+        expect(pod.getStoredResource(`${POD}profile`)).toBeUndefined();
+    });
+
+    it("lists the children of a container", async () => {
+        pod.setResource(`${POD}notes/a`, createPerson(`${POD}notes/a`, "A"));
+        pod.setResource(`${POD}notes/b`, createPerson(`${POD}notes/b`, "B"));
+        pod.setResource(`${POD}notes/archive/c`, createPerson(`${POD}notes/archive/c`, "C"));
+
+        const response = await request(createApp()).get("/container").query({ resourceUrl: `${POD}notes/`, pageSize: 2 });
+
+        expect(response.status).toBe(200);
+        expect(response.body.total).toBe(3);
+        expect(response.body.items.map((item: { url: string }) => item.url)).toEqual([`${POD}notes/a`, `${POD}notes/archive/`]);
+    });
+
+    it("deletes a container only recursively when it isn't empty", async () => {
+        pod.setResource(`${POD}notes/a`, createPerson(`${POD}notes/a`, "A"));
+        const app = createApp();
+
+        const refused = await request(app).delete("/resource").query({ resourceUrl: `${POD}notes/` });
+        const deleted = await request(app).delete("/resource").query({ resourceUrl: `${POD}notes/`, recursive: "true" });
+
+        expect(refused.status).toBe(409);
+        expect(deleted.status).toBe(204);
+        expect(pod.getStoredResource(`${POD}notes/a`)).toBeUndefined();
+    });
+
+    it("only deletes the resources a container listing points to within the container", async () => {
+        pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+        pod.setResource(`${POD}notes/a`, createPerson(`${POD}notes/a`, "A"));
+        const listing = setThing(createSolidDataset(), buildThing(createThing({ url: `${POD}notes/` }))
+            .addUrl(LDP_CONTAINS, `${POD}notes/`)
+            .addUrl(LDP_CONTAINS, `${POD}profile`)
+            .addUrl(LDP_CONTAINS, `${POD}notes/a`)
+            .build());
+        const getSolidDataset = pod.getSolidDataset.bind(pod);
+        vi.spyOn(pod, "getSolidDataset").mockImplementation(async (url, accessGrant, correlationId) =>
+            url.href === `${POD}notes/` ? listing : getSolidDataset(url, accessGrant, correlationId)
+        );
+
+        const response = await request(createApp()).delete("/resource").query({ resourceUrl: `${POD}notes/`, recursive: "true" });
+
+        expect(response.status).toBe(204);
+        expect(pod.getStoredResource(`${POD}notes/a`)).toBeUndefined();
+        expect(pod.getStoredResource(`${POD}profile`)).toBeDefined();
+    });
+
+    describe("content negotiation", () => {
+        it.each([
+            ["text/turtle", `<#me> <${SCHEMA_NAME}> "Alice".`],
+            ["application/n-triples", `<${POD}profile#me> <${SCHEMA_NAME}> "Alice".`],
+            ["application/n-quads", `<${POD}profile#me> <${SCHEMA_NAME}> "Alice".`],
+            ["application/trig", `{ <#me> <${SCHEMA_NAME}> "Alice". }`],
+            ["application/ld+json", JSON.stringify({ "@id": "#me", [SCHEMA_NAME]: "Alice" })]
+        ])("writes a %s body", async (contentType, body) => {
+            const response = await request(createApp()).put("/resource")
+                .query({ resourceUrl: `${POD}profile` })
+                .set("Content-Type", contentType)
+                .send(body);
+
+            expect(response.status).toBe(204);
+            const stored = pod.getStoredResource(`${POD}profile`) as SolidDataset;
+            expect(getStringNoLocale(getThing(stored, `${POD}profile#me`)!, SCHEMA_NAME)).toBe("Alice");
+        });
+
+        it("rejects a body of an unsupported media type with a 415", async () => {
+            const response = await request(createApp()).put("/resource")
+                .query({ resourceUrl: `${POD}profile` })
+                .set("Content-Type", "application/json")
+                .send(JSON.stringify({ name: "Alice" }));
+
+            expect(response.status).toBe(415);
+            expect(pod.getStoredResource(`${POD}profile`)).toBeUndefined();
+        });
+
+        it("rejects a malformed body with a 400 and keeps the resource", async () => {
+            pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+
+            const response = await request(createApp()).put("/resource")
+                .query({ resourceUrl: `${POD}profile` })
+                .set("Content-Type", "text/turtle")
+                .send(`<#me> <${SCHEMA_NAME}> "Bob"`);
+
+            expect(response.status).toBe(400);
+            const stored = pod.getStoredResource(`${POD}profile`) as SolidDataset;
+            expect(getStringNoLocale(getThing(stored, `${POD}profile#me`)!, SCHEMA_NAME)).toBe("Alice");
+        });
+
+        it.each([
+            ["application/ld+json", "application/ld+json"],
+            ["text/html, application/trig;q=0.5, application/n-quads;q=0.8", "application/n-quads"],
+            ["text/html, */*;q=0.1", "text/turtle"],
+            ["*/*", "text/turtle"]
+        ])("sends the resource as requested by Accept %s", async (accept, mediaType) => {
+            pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+
+            const response = await request(createApp()).get("/resource")
+                .query({ resourceUrl: `${POD}profile` })
+                .set("Accept", accept);
+
+            expect(response.status).toBe(200);
+            expect(response.type).toBe(mediaType);
+            expect(response.headers.vary).toContain("Accept");
+            expect(response.text).toContain("Alice");
+        });
+
+        it("answers a 406 if none of the accepted media types is supported", async () => {
+            pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+
+            const response = await request(createApp()).get("/resource")
+                .query({ resourceUrl: `${POD}profile` })
+                .set("Accept", "text/html, application/json");
+
+            expect(response.status).toBe(406);
+        });
+    });
+
+    describe("writeFile", () => {
+        const upload = (app: express.Express, resourceUrls: string[], files: { name: string, content: string }[]) =>
+            request(app).post("/files").query({ resourceUrl: resourceUrls }).send({ files });
+
+        it("writes the files into the container", async () => {
+            const response = await upload(createApp(), [`${POD}uploads/`], [{ name: "a.txt", content: "A" }, { name: "b c.txt", content: "B" }]);
+
+            expect(response.status).toBe(200);
+            expect(response.body.map((result: FileResult) => result.url)).toEqual([`${POD}uploads/a.txt`, `${POD}uploads/b%20c.txt`]);
+            expect(await (pod.getStoredResource(`${POD}uploads/a.txt`) as Blob).text()).toBe("A");
+        });
+
+        it("rejects a file name that escapes the container", async () => {
+            const response = await upload(createApp(), [`${POD}uploads/`], [{ name: "..", content: "A" }, { name: "b.txt", content: "B" }]);
+
+            expect(response.status).toBe(400);
+            expect(pod.getStoredResource(`${POD}uploads/b.txt`)).toBeUndefined();
+        });
+
+        it("rejects a naming strategy that resolves to another host", async () => {
+            const app = createApp({}, { fileName: file => `https://evil.example.org/${file.name}` });
+
+            const response = await upload(app, [`${POD}uploads/`], [{ name: "a.txt", content: "A" }, { name: "b.txt", content: "B" }]);
+
+            expect(response.status).toBe(400);
+        });
+
+        it("rejects files that would be written to the same URL", async () => {
+            const response = await upload(createApp(), [`${POD}uploads/`], [{ name: "a.txt", content: "A" }, { name: "a.txt", content: "B" }]);
+
+            expect(response.status).toBe(400);
+            expect(pod.getStoredResource(`${POD}uploads/a.txt`)).toBeUndefined();
+        });
+
+        it("only rolls back the files that didn't exist before", async () => {
+            pod.setResource(`${POD}uploads/existing.txt`, new Blob(["original"]));
+            const app = createApp({ resources: [`${POD}uploads/`] }, { rollback: true });
+
+            const response = await upload(app, [`${POD}uploads/`, `${POD}private/`], [{ name: "existing.txt", content: "A" }, { name: "new.txt", content: "B" }]);
+
+            expect(response.status).toBe(403);
+            expect(pod.getStoredResource(`${POD}uploads/new.txt`)).toBeUndefined();
+            expect(pod.getStoredResource(`${POD}uploads/existing.txt`)).toBeDefined();
+        });
+    });
+
+    describe("getResource and getFile with a cache", () => {
+        let accessGrantPod: StubAccessGrantPod;
+
+        beforeEach(() => {
+            accessGrantPod = new StubAccessGrantPod().install();
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        // The validators are requested from the pod directly, the resources are read with the pod service.
+        const setResource = (url: string, resource: SolidDataset | Blob) => {
+            pod.setResource(url, resource);
+            return accessGrantPod.setResource(url, "");
+        };
+
+        const createCacheApp = () => {
+            const storage = new TestSessionStorage();
+            const session = storage.addSession({ webId: WEB_ID, fetch: accessGrantPod.sessionFetch });
+            return createTestApp({
+                sessionData: createTestSessionData({
+                    solidSid: session.info.sessionId,
+                    pods: [POD],
+                    accessGrant: createTestAccessGrant({ ownerWebId: WEB_ID, resources: [POD], modes: ["Read", "Write"] })
+                }),
+                routes: app => {
+                    const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                    const resources = createResourceMiddleware({ podService: pod.asPodService(), cache: new ResourceCache() });
+                    app.get("/resource", getSession, resources.getResource, resources.sendResource);
+                    app.get("/renamed", getSession, resources.getResource, (req, res, next) => {
+                        res.locals.solidDataset = createPerson(`${POD}profile`, "Anonymous");
+                        next();
+                    }, resources.sendResource);
+                    app.get("/file", getSession, resources.getFile, (req, res) => {
+                        res.send(res.locals.file?.size);
+                    });
+                }
+            }).app;
+        };
+
+        it("sends a weak ETag with Vary: Accept and answers a conditional request with a 304", async () => {
+            const etag = setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+            const app = createCacheApp();
+
+            const response = await request(app).get("/resource").query({ resourceUrl: `${POD}profile` }).set("Accept", "text/turtle");
+            const notModified = await request(app).get("/resource").query({ resourceUrl: `${POD}profile` }).set("If-None-Match", `W/${etag}`);
+
+            expect(response.status).toBe(200);
+            expect(response.headers.etag).toBe(`W/${etag}`);
+            expect(response.headers.vary).toBe("Accept");
+            expect(notModified.status).toBe(304);
+            expect(notModified.headers.vary).toBe("Accept");
+        });
+
+        it("reads a changed resource again", async () => {
+            setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+            const app = createCacheApp();
+            const first = await request(app).get("/resource").query({ resourceUrl: `${POD}profile` });
+
+            const etag = setResource(`${POD}profile`, createPerson(`${POD}profile`, "Bob"));
+            const response = await request(app).get("/resource").query({ resourceUrl: `${POD}profile` })
+                .set("If-None-Match", first.headers.etag)
+                .set("Accept", "application/n-triples");
+
+            expect(response.status).toBe(200);
+            expect(response.headers.etag).toBe(`W/${etag}`);
+            expect(response.text).toContain("\"Bob\"");
+            expect(accessGrantPod.requests.every(podRequest => podRequest.method === "HEAD")).toBe(true);
+        });
+
+        it("doesn't send the validators of a dataset that was changed by another middleware", async () => {
+            const etag = setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+
+            const response = await request(createCacheApp()).get("/renamed").query({ resourceUrl: `${POD}profile` }).set("If-None-Match", `W/${etag}`);
+
+            expect(response.status).toBe(200);
+            expect(response.headers.etag).not.toBe(`W/${etag}`);
+            expect(response.text).toContain("Anonymous");
+        });
+
+        it("sends the ETag of a file and answers a conditional request with a 304", async () => {
+            const etag = setResource(`${POD}file.txt`, new Blob(["content"]));
+            const app = createCacheApp();
+
+            const response = await request(app).get("/file").query({ resourceUrl: `${POD}file.txt` });
+            const notModified = await request(app).get("/file").query({ resourceUrl: `${POD}file.txt` }).set("If-None-Match", etag);
+
+            expect(response.headers.etag).toBe(etag);
+            expect(notModified.status).toBe(304);
+        });
+    });
+
+    describe("getFile and writeFile with stream", () => {
+        const FILE = `${POD}photo.png`;
+        let accessGrantPod: StubAccessGrantPod;
+
+        beforeEach(() => {
+            accessGrantPod = new StubAccessGrantPod().install();
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        const createStreamApp = (options: Partial<ResourceMiddlewareOptions> = {}) => {
+            const storage = new TestSessionStorage();
+            const session = storage.addSession({ webId: WEB_ID, fetch: accessGrantPod.sessionFetch });
+            return createTestApp({
+                sessionData: createTestSessionData({
+                    solidSid: session.info.sessionId,
+                    pods: [POD],
+                    accessGrant: createTestAccessGrant({ ownerWebId: WEB_ID, resources: [POD], modes: ["Read", "Write"] })
+                }),
+                routes: app => {
+                    const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                    const resources = createResourceMiddleware({ podService: pod.asPodService(), stream: true, ...options });
+                    app.get("/file", getSession, resources.getFile);
+                    app.put("/file", getSession, resources.writeFile, (req, res) => {
+                        res.sendStatus(204);
+                    });
+                    // Stands in for a proxy that understates the size of the body in the Content-Length header.
+                    app.put("/understated", getSession, (req, res, next) => {
+                        req.headers["content-length"] = "1";
+                        next();
+                    }, resources.writeFile, (req, res) => {
+                        res.sendStatus(204);
+                    });
+                }
+            }).app;
+        };
+
+        // Writes the body in chunks, so it's sent without a Content-Length header, to a listening app as the request starts right away.
+        const putChunked = async (app: express.Express, content: string) => {
+            const server = await new Promise<Server>(resolve => {
+                const listening: Server = app.listen(0, "127.0.0.1", () => resolve(listening));
+            });
+            try {
+                const upload = request(server).put("/file").query({ resourceUrl: FILE }).set("Content-Type", "image/png");
+                upload.write(content.slice(0, 5));
+                upload.write(content.slice(5));
+                return await upload;
+            } finally {
+                await new Promise(resolve => server.close(resolve));
+            }
+        };
+
+        it("relays the file with its Content-Type, Content-Length and ETag", async () => {
+            const etag = accessGrantPod.setResource(FILE, "0123456789", "image/png");
+
+            const response = await request(createStreamApp()).get("/file").query({ resourceUrl: FILE }).buffer(true);
+
+            expect(response.status).toBe(200);
+            expect(response.type).toBe("image/png");
+            expect(response.headers["content-length"]).toBe("10");
+            expect(response.headers.etag).toBe(etag);
+            expect(response.body.toString()).toBe("0123456789");
+        });
+
+        it("relays a range of the file as a 206 with its Content-Range", async () => {
+            const etag = accessGrantPod.setResource(FILE, "0123456789", "image/png");
+
+            const response = await request(createStreamApp()).get("/file").query({ resourceUrl: FILE }).set("Range", "bytes=2-5").buffer(true);
+
+            expect(response.status).toBe(206);
+            expect(response.headers["content-range"]).toBe("bytes 2-5/10");
+            expect(response.headers["content-length"]).toBe("4");
+            expect(response.headers.etag).toBe(etag);
+            expect(response.body.toString()).toBe("2345");
+            expect(accessGrantPod.requests[0].headers.get("Range")).toBe("bytes=2-5");
+        });
+
+        it("relays an unsatisfiable range as a 416", async () => {
+            accessGrantPod.setResource(FILE, "0123456789", "image/png");
+
+            const response = await request(createStreamApp()).get("/file").query({ resourceUrl: FILE }).set("Range", "bytes=20-");
+
+            expect(response.status).toBe(416);
+            expect(response.headers["content-range"]).toBe("bytes */10");
+        });
+
+        it("answers a HEAD request with the headers of the file, requested with HEAD from the pod", async () => {
+            const etag = accessGrantPod.setResource(FILE, "0123456789", "image/png");
+
+            const response = await request(createStreamApp()).head("/file").query({ resourceUrl: FILE });
+
+            expect(response.status).toBe(200);
+            expect(response.headers["content-length"]).toBe("10");
+            expect(response.headers.etag).toBe(etag);
+            expect(accessGrantPod.requests.map(podRequest => podRequest.method)).toEqual(["HEAD"]);
+        });
+
+        it("streams a raw body to the pod", async () => {
+            const response = await request(createStreamApp()).put("/file").query({ resourceUrl: FILE })
+                .set("Content-Type", "image/png")
+                .send(Buffer.from("0123456789"));
+
+            expect(response.status).toBe(204);
+            expect(accessGrantPod.getResource(FILE)).toMatchObject({ body: "0123456789", contentType: "image/png" });
+        });
+
+        it("streams the file of a multipart body to the pod", async () => {
+            const response = await request(createStreamApp()).put("/file").query({ resourceUrl: FILE })
+                .attach("file", Buffer.from("0123456789"), { filename: "photo.png", contentType: "image/png" });
+
+            expect(response.status).toBe(204);
+            expect(accessGrantPod.getResource(FILE)).toMatchObject({ body: "0123456789", contentType: "image/png" });
+        });
+
+        it("rejects a multipart body with more than one file", async () => {
+            const response = await request(createStreamApp()).put("/file").query({ resourceUrl: FILE })
+                .attach("file", Buffer.from("0123456789"), { filename: "photo.png", contentType: "image/png" })
+                .attach("other", Buffer.from("9876543210"), { filename: "other.png", contentType: "image/png" });
+
+            expect(response.status).toBe(400);
+            expect(accessGrantPod.getResource(FILE)).toBeUndefined();
+        });
+
+        it("rejects a raw body larger than maxFileSize by its Content-Length, before writing to the pod", async () => {
+            const response = await request(createStreamApp({ maxFileSize: 5 })).put("/file").query({ resourceUrl: FILE })
+                .set("Content-Type", "image/png")
+                .send(Buffer.from("0123456789"));
+
+            expect(response.status).toBe(413);
+            expect(accessGrantPod.requests).toHaveLength(0);
+        });
+
+        it("rejects a raw body larger than maxFileSize without a Content-Length", async () => {
+            const response = await putChunked(createStreamApp({ maxFileSize: 5 }), "0123456789");
+
+            expect(response.status).toBe(413);
+            expect(accessGrantPod.getResource(FILE)).toBeUndefined();
+        });
+
+        it("rejects a raw body larger than maxFileSize of which the Content-Length understates the size", async () => {
+            const response = await request(createStreamApp({ maxFileSize: 5 })).put("/understated").query({ resourceUrl: FILE })
+                .set("Content-Type", "image/png")
+                .send(Buffer.from("0123456789"));
+
+            expect(response.status).toBe(413);
+            expect(accessGrantPod.getResource(FILE)).toBeUndefined();
+        });
+
+        it("rejects a multipart file larger than maxFileSize", async () => {
+            const response = await request(createStreamApp({ maxFileSize: 5 })).put("/file").query({ resourceUrl: FILE })
+                .attach("file", Buffer.from("0123456789"), { filename: "photo.png", contentType: "image/png" });
+
+            expect(response.status).toBe(413);
+            expect(accessGrantPod.getResource(FILE)).toBeUndefined();
+        });
+
+        it("only accepts files of the allowed MIME types, matching wildcards", async () => {
+            const app = createStreamApp({ allowedMimeTypes: ["image/*", "application/pdf"] });
+            const upload = (contentType: string) => request(app).put("/file").query({ resourceUrl: FILE })
+                .set("Content-Type", contentType)
+                .send(Buffer.from("0123456789"));
+
+            expect((await upload("image/png")).status).toBe(204);
+            expect((await upload("application/pdf")).status).toBe(204);
+            expect((await upload("text/plain")).status).toBe(415);
+            expect((await upload("imagery/png")).status).toBe(415);
+            const multipart = await request(app).put("/file").query({ resourceUrl: FILE })
+                .attach("file", Buffer.from("0123456789"), { filename: "notes.txt", contentType: "text/plain" });
+            expect(multipart.status).toBe(415);
+            expect(accessGrantPod.requests.map(podRequest => podRequest.headers.get("Content-Type"))).toEqual(["image/png", "application/pdf"]);
+        });
+    });
+
+    describe("with a resilience policy", () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it("answers a 504 when reading the resource from the pod service hangs", async () => {
+            vi.spyOn(pod, "getSolidDataset").mockReturnValue(new Promise(() => undefined));
+            const app = createApp({}, { resilience: new ResiliencePolicy({ timeoutMs: 10, retries: 0 }) });
+
+            const response = await request(app).get("/resource").query({ resourceUrl: `${POD}profile` });
+
+            expect(response.status).toBe(504);
+            expect(response.body.code).toBe("UPSTREAM_TIMEOUT");
+        });
+
+        it("retries a transient failure of reading the resource", async () => {
+            pod.setResource(`${POD}profile`, createPerson(`${POD}profile`, "Alice"));
+            const getSolidDataset = pod.getSolidDataset.bind(pod);
+            const flakyRead = vi.spyOn(pod, "getSolidDataset")
+                .mockRejectedValueOnce(new HttpError("Service unavailable", 503))
+                .mockImplementation(getSolidDataset);
+            const app = createApp({}, { resilience: new ResiliencePolicy({ retryBaseDelayMs: 1 }) });
+
+            const response = await request(app).get("/resource").query({ resourceUrl: `${POD}profile` }).set("Accept", "text/turtle");
+
+            expect(response.status).toBe(200);
+            expect(response.text).toContain("Alice");
+            expect(flakyRead).toHaveBeenCalledTimes(2);
+        });
+
+        it("doesn't retry a failing delete", async () => {
+            const failingDelete = vi.spyOn(pod, "deleteSolidDataset").mockRejectedValue(new HttpError("Service unavailable", 503));
+            const app = createApp({}, { resilience: new ResiliencePolicy({ retryBaseDelayMs: 1 }) });
+
+            const response = await request(app).delete("/resource").query({ resourceUrl: `${POD}profile` });
+
+            expect(response.status).toBe(503);
+            expect(failingDelete).toHaveBeenCalledOnce();
+        });
+
+        it("times out and aborts a streamed file upload", async () => {
+            const accessGrantPod = new StubAccessGrantPod().install();
+            accessGrantPod.hangingMethods.add("PUT");
+            const app = createPodApp(accessGrantPod, { stream: true, resilience: new ResiliencePolicy({ timeoutMs: 50, retries: 2 }) });
+
+            const response = await request(app).put("/file").query({ resourceUrl: `${POD}notes.txt` })
+                .set("Content-Type", "text/plain").send("notes");
+
+            expect(response.status).toBe(504);
+            expect(response.body.code).toBe("UPSTREAM_TIMEOUT");
+            const uploads = accessGrantPod.requests.filter(podRequest => podRequest.method === "PUT");
+            expect(uploads).toHaveLength(1);
+            expect(uploads[0].signal.aborted).toBe(true);
+        });
+
+        it("times out and aborts a streamed file download", async () => {
+            const accessGrantPod = new StubAccessGrantPod().install();
+            accessGrantPod.setResource(`${POD}notes.txt`, "notes", "text/plain");
+            accessGrantPod.hangingMethods.add("GET");
+            const app = createPodApp(accessGrantPod, { stream: true, resilience: new ResiliencePolicy({ timeoutMs: 50, retries: 0 }) });
+
+            const response = await request(app).get("/file").query({ resourceUrl: `${POD}notes.txt` });
+
+            expect(response.status).toBe(504);
+            expect(accessGrantPod.requests.filter(podRequest => podRequest.method === "GET").every(podRequest => podRequest.signal.aborted)).toBe(true);
+        });
+
+        it("times out and aborts a patch", async () => {
+            const accessGrantPod = new StubAccessGrantPod().install();
+            accessGrantPod.setResource(`${POD}profile`, `<#me> <${SCHEMA_NAME}> "Alice".`);
+            accessGrantPod.hangingMethods.add("PATCH");
+            const app = createPodApp(accessGrantPod, { resilience: new ResiliencePolicy({ timeoutMs: 50 }) });
+
+            const response = await request(app).patch("/resource").query({ resourceUrl: `${POD}profile` })
+                .set("Content-Type", "application/sparql-update").send(`INSERT DATA { <#me> <${SCHEMA_NAME}> "Bob". }`);
+
+            expect(response.status).toBe(504);
+            const patches = accessGrantPod.requests.filter(podRequest => podRequest.method === "PATCH");
+            expect(patches).toHaveLength(1);
+            expect(patches[0].signal.aborted).toBe(true);
+        });
+    });
+
+    describe("patchResource", () => {
+        const PROFILE = `${POD}profile`;
+        let accessGrantPod: StubAccessGrantPod;
+        let etag: string;
+
+        beforeEach(() => {
+            accessGrantPod = new StubAccessGrantPod().install();
+            etag = accessGrantPod.setResource(PROFILE, `<#me> <${SCHEMA_NAME}> "Alice".`);
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        const patch = (app: express.Express, contentType: string, body: string, ifMatch?: string) => {
+            const patchRequest = request(app).patch("/resource").query({ resourceUrl: PROFILE }).set("Content-Type", contentType);
+            return (ifMatch ? patchRequest.set("If-Match", ifMatch) : patchRequest).send(body);
+        };
+
+        it.each([
+            ["application/sparql-update", `DELETE DATA { <#me> <${SCHEMA_NAME}> "Alice". }; INSERT DATA { <#me> <${SCHEMA_NAME}> "Bob". }`],
+            ["text/n3", `@prefix solid: <http://www.w3.org/ns/solid/terms#>. _:patch a solid:InsertDeletePatch; solid:inserts { <#me> <${SCHEMA_NAME}> "Bob". }.`]
+        ])("forwards a %s patch with If-Match to the pod and sends the new ETag", async (contentType, body) => {
+            const response = await patch(createPodApp(accessGrantPod), contentType, body, etag);
+
+            expect(response.status).toBe(204);
+            expect(response.headers.etag).toBe(accessGrantPod.getResource(PROFILE)!.etag);
+            expect(response.headers.etag).not.toBe(etag);
+            const podPatch = accessGrantPod.requests.find(podRequest => podRequest.method === "PATCH")!;
+            expect(podPatch.headers.get("Content-Type")).toBe(contentType);
+            expect(podPatch.headers.get("If-Match")).toBe(etag);
+            expect(await podPatch.text()).toBe(body);
+        });
+
+        it("rejects another media type", async () => {
+            const response = await patch(createPodApp(accessGrantPod), "text/turtle", `<#me> <${SCHEMA_NAME}> "Bob".`);
+
+            expect(response.status).toBe(415);
+            expect(accessGrantPod.requests).toHaveLength(0);
+        });
+
+        it("rejects an empty patch", async () => {
+            const response = await patch(createPodApp(accessGrantPod), "application/sparql-update", "");
+
+            expect(response.status).toBe(400);
+            expect(accessGrantPod.requests).toHaveLength(0);
+        });
+
+        it("requires If-Match with requireIfMatch", async () => {
+            const response = await patch(createPodApp(accessGrantPod, { requireIfMatch: true }), "application/sparql-update", `INSERT DATA { <#me> <${SCHEMA_NAME}> "Bob". }`);
+
+            expect(response.status).toBe(428);
+            expect(accessGrantPod.requests).toHaveLength(0);
+        });
+
+        it("passes on a failed precondition of the pod as a 412", async () => {
+            const response = await patch(createPodApp(accessGrantPod), "application/sparql-update", `INSERT DATA { <#me> <${SCHEMA_NAME}> "Bob". }`, `"outdated"`);
+
+            expect(response.status).toBe(412);
+            expect(accessGrantPod.getResource(PROFILE)!.etag).toBe(etag);
+        });
+
+        it("removes the patched resource from the cache", async () => {
+            const cache = new ResourceCache();
+            const invalidate = vi.spyOn(cache, "invalidate");
+
+            const response = await patch(createPodApp(accessGrantPod, { cache }), "application/sparql-update", `INSERT DATA { <#me> <${SCHEMA_NAME}> "Bob". }`);
+
+            expect(response.status).toBe(204);
+            expect(invalidate).toHaveBeenCalledWith(PROFILE);
+        });
+    });
+
+    describe("writeResource with usePatch", () => {
+        let accessGrantPod: StubAccessGrantPod;
+
+        beforeEach(() => {
+            accessGrantPod = new StubAccessGrantPod().install();
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        const write = (ifMatch: string) => request(createPodApp(accessGrantPod, { usePatch: true })).put("/resource")
+            .query({ resourceUrl: `${POD}profile` })
+            .set("Content-Type", "text/turtle")
+            .set("If-Match", ifMatch)
+            .set("X-Correlation-Id", "correlation-1")
+            .send(`<#me> <${SCHEMA_NAME}> "Bob".`);
+
+        it("patches the resource when If-Match is a wildcard, forwarding the correlation ID", async () => {
+            const etag = accessGrantPod.setResource(`${POD}profile`, `<#me> <${SCHEMA_NAME}> "Alice".`);
+
+            const response = await write("*");
+
+            expect(response.status).toBe(204);
+            const patch = accessGrantPod.requests.find(podRequest => podRequest.method === "PATCH")!;
+            expect(patch.headers.get("If-Match")).toBe(etag);
+            expect(accessGrantPod.requests.every(podRequest => podRequest.headers.get("X-Correlation-Id") === "correlation-1")).toBe(true);
+        });
+
+        it("patches the resource when one of the listed entity tags matches", async () => {
+            const etag = accessGrantPod.setResource(`${POD}profile`, `<#me> <${SCHEMA_NAME}> "Alice".`);
+
+            expect((await write(`"outdated", ${etag}`)).status).toBe(204);
+        });
+
+        it("rejects a weak entity tag", async () => {
+            const etag = accessGrantPod.setResource(`${POD}profile`, `<#me> <${SCHEMA_NAME}> "Alice".`);
+
+            expect((await write(`W/${etag}`)).status).toBe(412);
+            expect(accessGrantPod.requests.some(podRequest => podRequest.method === "PATCH")).toBe(false);
+        });
+    });
+});
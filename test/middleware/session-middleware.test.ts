@@ -0,0 +1,126 @@
+import {afterAll, beforeAll, beforeEach, describe, expect, it} from "vitest";
+import request from "supertest";
+import {createSessionMiddleware, createSolidAuthRouter} from "../../src";
+import {createTestApp, createTestSessionData, TestSessionStorage} from "../../src/testing";
+import {startStubIdentityProvider, StubIdentityProvider} from "../stubs/identity-provider";
+
+const WEB_ID = "https://id.example.org/alice/profile/card#me";
+
+describe("session-middleware", () => {
+    let storage: TestSessionStorage;
+
+    beforeEach(() => {
+        storage = new TestSessionStorage();
+    });
+
+    const createApp = (solidSid?: string) => createTestApp({
+        sessionData: solidSid ? createTestSessionData({ solidSid }) : {},
+        routes: app => {
+            const sessionMiddleware = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+            app.get("/mandatory", sessionMiddleware.getSession, (req, res) => {
+                res.send({ webId: res.locals.session?.info.webId });
+            });
+            app.get("/optional", sessionMiddleware.getSessionOptional, (req, res) => {
+                res.send({ webId: res.locals.session?.info.webId ?? null });
+            });
+        }
+    }).app;
+
+    it("exposes the authenticated session", async () => {
+        const session = storage.addSession({ webId: WEB_ID });
+
+        const response = await request(createApp(session.info.sessionId)).get("/mandatory");
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ webId: WEB_ID });
+    });
+
+    it("rejects a request without Solid session id", async () => {
+        const response = await request(createApp()).get("/mandatory");
+
+        expect(response.status).toBe(401);
+        expect(response.body.code).toBe("SESSION_MISSING");
+    });
+
+    it("rejects a session that isn't in the storage", async () => {
+        const response = await request(createApp("unknown")).get("/mandatory");
+
+        expect(response.status).toBe(401);
+        expect(response.body.code).toBe("SESSION_NOT_AUTHENTICATED");
+    });
+
+    it("rejects a session that is logged out", async () => {
+        const session = storage.addSession({ webId: WEB_ID, isLoggedIn: false });
+
+        const response = await request(createApp(session.info.sessionId)).get("/mandatory");
+
+        expect(response.status).toBe(401);
+        expect(response.body.code).toBe("SESSION_NOT_AUTHENTICATED");
+    });
+
+    it("continues without session when the session is optional", async () => {
+        const response = await request(createApp()).get("/optional");
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ webId: null });
+    });
+
+    describe("createSolidAuthRouter", () => {
+        let identityProvider: StubIdentityProvider;
+
+        beforeAll(async () => {
+            identityProvider = await startStubIdentityProvider();
+        });
+
+        afterAll(async () => {
+            await identityProvider.close();
+        });
+
+        const createAuthApp = () => createTestApp({
+            sessionData: { accessGrant: "{}", activePod: "https://pod.example.org/mallory/" },
+            routes: app => {
+                app.use(createSolidAuthRouter({
+                    oidcIssuer: identityProvider.issuer,
+                    baseUrl: "http://localhost",
+                    clientId: "https://app.example.org/id",
+                    storage
+                }));
+            }
+        });
+
+        it("logs in at the identity provider and regenerates the session", async () => {
+            const {app, session} = createAuthApp();
+            const sessionIdBeforeLogin = session.id;
+
+            const login = await request(app).get("/login?redirectUrl=/home&locale=nl");
+            expect(login.status).toBe(302);
+            const authorizationUrl = new URL(login.headers.location);
+            expect(authorizationUrl.href.startsWith(`${identityProvider.issuer}/authorize`)).toBe(true);
+
+            const callback = await request(app).get(`/callback?code=code&state=${authorizationUrl.searchParams.get("state")}`);
+
+            expect(callback.status).toBe(302);
+            expect(callback.headers.location).toBe("/home");
+            expect(session.id).not.toBe(sessionIdBeforeLogin);
+            expect(session.solidSid).toBeDefined();
+            expect(session.pods).toEqual([identityProvider.pod]);
+            expect(session.locale).toBe("nl");
+            expect(session.redirectUrl).toBeUndefined();
+            expect(session.pendingSolidSid).toBeUndefined();
+            expect(session.accessGrant).toBeUndefined();
+            expect(session.activePod).toBeUndefined();
+        });
+
+        it("rejects a callback without pending login", async () => {
+            const response = await request(createAuthApp().app).get("/callback?code=code&state=state");
+
+            expect(response.status).toBe(400);
+        });
+
+        it("rejects a redirect URL on another origin", async () => {
+            const response = await request(createAuthApp().app).get("/login?redirectUrl=https://evil.example.org/");
+
+            expect(response.status).toBe(400);
+        });
+    });
+});
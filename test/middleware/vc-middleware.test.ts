@@ -0,0 +1,210 @@
+import {beforeEach, describe, expect, it, vi} from "vitest";
+import {issueAccessRequest, redirectToAccessManagementUi} from "@inrupt/solid-client-access-grants";
+import request from "supertest";
+import {createSessionMiddleware, createVcMiddleware, VcMiddlewareOptions} from "../../src";
+import {
+    createTestAccessGrant,
+    createTestApp,
+    createTestSessionData,
+    InMemoryVcService,
+    TestAccessGrant,
+    TestSessionStorage
+} from "../../src/testing";
+
+vi.mock("@inrupt/solid-client-access-grants", async importOriginal => ({
+    ...await importOriginal<typeof import("@inrupt/solid-client-access-grants")>(),
+    issueAccessRequest: vi.fn(),
+    redirectToAccessManagementUi: vi.fn()
+}));
+
+const WEB_ID = "https://id.example.org/alice/profile/card#me";
+const REQUESTOR = "https://id.example.org/app/profile/card#me";
+const POD = "https://pod.example.org/alice/";
+
+describe("vc-middleware", () => {
+    let vcService: InMemoryVcService;
+
+    beforeEach(() => {
+        vcService = new InMemoryVcService();
+    });
+
+    const createApp = (accessGrant?: TestAccessGrant, options: Partial<VcMiddlewareOptions> = {}) => {
+        const storage = new TestSessionStorage();
+        const session = storage.addSession({ webId: WEB_ID });
+        return createTestApp({
+            sessionData: createTestSessionData({ solidSid: session.info.sessionId, pods: [POD], accessGrant }),
+            routes: app => {
+                const {getSession} = createSessionMiddleware({ storage, sessionFactory: storage.sessionFactory });
+                const vc = createVcMiddleware({ vcService: vcService.asVcService(), requestorWebId: REQUESTOR, ...options });
+                const ok = (req: unknown, res: { sendStatus: (status: number) => void }) => res.sendStatus(204);
+                app.get("/validate", getSession, vc.validateAccessGrant, ok);
+                app.all("/scope", getSession, vc.verifyAccessGrantScope, ok);
+                app.get("/ensure", getSession, vc.ensureAccessGrant, ok);
+            }
+        });
+    };
+
+    describe("validateAccessGrant", () => {
+        it("accepts a valid access grant", async () => {
+            const {app} = createApp(createTestAccessGrant({ ownerWebId: WEB_ID, resources: [POD] }));
+
+            expect((await request(app).get("/validate")).status).toBe(204);
+        });
+
+        it("rejects a missing access grant", async () => {
+            const response = await request(createApp().app).get("/validate");
+
+            expect(response.status).toBe(403);
+            expect(response.body.code).toBe("ACCESS_GRANT_MISSING");
+        });
+
+        it("rejects an expired access grant", async () => {
+            const {app} = createApp(createTestAccessGrant({ ownerWebId: WEB_ID, resources: [POD], expirationDate: new Date(Date.now() - 1000) }));
+
+            const response = await request(app).get("/validate");
+
+            expect(response.status).toBe(403);
+            expect(response.body.code).toBe("ACCESS_GRANT_EXPIRED");
+        });
+    });
+
+    describe("verifyAccessGrantScope", () => {
+        const accessGrant = createTestAccessGrant({ ownerWebId: WEB_ID, resources: [`${POD}notes/`], modes: ["Read"] });
+
+        it("accepts a resource in a granted container", async () => {
+            const response = await request(createApp(accessGrant).app).get("/scope").query({ resourceUrl: `${POD}notes/a` });
+
+            expect(response.status).toBe(204);
+        });
+
+        it("rejects a resource outside the granted resources", async () => {
+            const response = await request(createApp(accessGrant).app).get("/scope").query({ resourceUrl: `${POD}diary` });
+
+            expect(response.status).toBe(403);
+            expect(response.body.code).toBe("ACCESS_GRANT_RESOURCE_NOT_COVERED");
+        });
+
+        it("rejects a method requiring an access mode that isn't granted", async () => {
+            const response = await request(createApp(accessGrant).app).put("/scope").query({ resourceUrl: `${POD}notes/a` });
+
+            expect(response.status).toBe(403);
+            expect(response.body.code).toBe("ACCESS_GRANT_MODE_NOT_COVERED");
+        });
+
+        it("accepts a POST with either Write or Append", async () => {
+            const appending = createTestAccessGrant({ ownerWebId: WEB_ID, resources: [`${POD}notes/`], modes: ["Append"] });
+
+            expect((await request(createApp(appending).app).post("/scope").query({ resourceUrl: `${POD}notes/` })).status).toBe(204);
+            expect((await request(createApp(appending).app).put("/scope").query({ resourceUrl: `${POD}notes/a` })).status).toBe(403);
+        });
+
+        it("requires all of the configured access modes", async () => {
+            const reading = createTestAccessGrant({ ownerWebId: WEB_ID, resources: [`${POD}notes/`], modes: ["Read"] });
+            const readingAndWriting = createTestAccessGrant({ ownerWebId: WEB_ID, resources: [`${POD}notes/`], modes: ["Read", "Write"] });
+
+            const rejected = await request(createApp(reading, { modes: ["Read", "Write"] }).app).get("/scope").query({ resourceUrl: `${POD}notes/a` });
+            const accepted = await request(createApp(readingAndWriting, { modes: ["Read", "Write"] }).app).get("/scope").query({ resourceUrl: `${POD}notes/a` });
+
+            expect(rejected.status).toBe(403);
+            expect(rejected.body.code).toBe("ACCESS_GRANT_MODE_NOT_COVERED");
+            expect(accepted.status).toBe(204);
+        });
+
+        it("rejects a resource that is only granted by an invalid URL, stating the invalid resources", async () => {
+            const invalid = createTestAccessGrant({ ownerWebId: WEB_ID, resources: ["notes/", "https://[pod/", `${POD}public/`], modes: ["Read"] });
+
+            const response = await request(createApp(invalid).app).get("/scope").query({ resourceUrl: `${POD}notes/a` });
+
+            expect(response.status).toBe(403);
+            expect(response.body.code).toBe("ACCESS_GRANT_RESOURCE_NOT_COVERED");
+            expect(response.body.detail).toContain("[notes/, https://[pod/]");
+            expect((await request(createApp(invalid).app).get("/scope").query({ resourceUrl: `${POD}public/a` })).status).toBe(204);
+        });
+    });
+
+    describe("ensureAccessGrant", () => {
+        it("stores the active access grant that stays valid the longest in the session", async () => {
+            const expiring = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: new Date(Date.now() + 60 * 60 * 1000) });
+            const lasting = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+            const revoked = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: new Date(Date.now() + 48 * 60 * 60 * 1000) });
+            [expiring, lasting, revoked].forEach(grant => vcService.addAccessGrant(grant));
+            vcService.revokeAccessGrant(revoked.id);
+            const {app, session} = createApp();
+
+            const response = await request(app).get("/ensure");
+
+            expect(response.status).toBe(204);
+            expect(JSON.parse(session.accessGrant!).id).toBe(lasting.id);
+            expect(session.accessGrantExpirationDate).toBe(lasting.expirationDate);
+        });
+
+        it("prefers an access grant that doesn't expire", async () => {
+            const expiring = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+            const lasting = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: null });
+            const otherLasting = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: null });
+            [expiring, lasting, otherLasting].forEach(grant => vcService.addAccessGrant(grant));
+            const {app, session} = createApp();
+
+            await request(app).get("/ensure");
+
+            expect([lasting.id, otherLasting.id]).toContain(JSON.parse(session.accessGrant!).id);
+            expect(session.accessGrantExpirationDate).toBeUndefined();
+        });
+
+        it("uses an access grant about to expire until it expires when no other is found", async () => {
+            const expiring = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: new Date(Date.now() + 60 * 1000) });
+            const {app, session} = createApp(expiring, { consentUrl: "https://consent.example.org" });
+
+            const response = await request(app).get("/ensure");
+
+            expect(response.status).toBe(204);
+            expect(JSON.parse(session.accessGrant!).id).toBe(expiring.id);
+        });
+
+        it("redirects to the consent flow once the access grant has expired", async () => {
+            const expired = createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: REQUESTOR, resources: [POD], expirationDate: new Date(Date.now() - 1000) });
+            const {app} = createApp(expired, { consentUrl: "https://consent.example.org" });
+
+            const response = await request(app).get("/ensure");
+
+            expect(response.status).toBe(302);
+            expect(response.headers.location).toBe("https://consent.example.org");
+        });
+
+        it("requests access and redirects to the access management UI without active access grant", async () => {
+            vi.mocked(issueAccessRequest).mockResolvedValue({ id: "https://vc.example.org/vc/request" } as Awaited<ReturnType<typeof issueAccessRequest>>);
+            vi.mocked(redirectToAccessManagementUi).mockImplementation(async (accessRequest, redirectUrl, options) => {
+                options?.redirectCallback?.(`${options.fallbackAccessManagementUi}?redirectUrl=${encodeURIComponent(redirectUrl.toString())}`);
+            });
+            const accessRequest = { access: { read: true }, resources: [POD], resourceOwner: WEB_ID };
+            const {app, session} = createApp(undefined, { consentUrl: "/consent", accessRequest });
+
+            const response = await request(app).get("/ensure");
+
+            expect(response.status).toBe(302);
+            expect(response.headers.location).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/consent\?redirectUrl=http/);
+            expect(vi.mocked(issueAccessRequest).mock.calls[0][0]).toEqual(accessRequest);
+            expect(vi.mocked(redirectToAccessManagementUi).mock.calls[0][2]?.resourceOwner).toBe(WEB_ID);
+            expect(session.redirectUrl).toBe("/ensure");
+        });
+
+        it("ignores the access grants given to other requestors", async () => {
+            vcService.addAccessGrant(createTestAccessGrant({ ownerWebId: WEB_ID, requestorWebId: "https://id.example.org/other#me", resources: [POD] }));
+
+            const response = await request(createApp().app).get("/ensure");
+
+            expect(response.status).toBe(403);
+            expect(response.body.code).toBe("ACCESS_GRANT_UNAVAILABLE");
+        });
+
+        it("redirects to the consent flow without active access grant", async () => {
+            const {app, session} = createApp(undefined, { consentUrl: "https://consent.example.org" });
+
+            const response = await request(app).get("/ensure?page=2");
+
+            expect(response.status).toBe(302);
+            expect(response.headers.location).toBe("https://consent.example.org");
+            expect(session.redirectUrl).toBe("/ensure?page=2");
+        });
+    });
+});
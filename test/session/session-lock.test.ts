@@ -0,0 +1,43 @@
+import {describe, expect, it} from "vitest";
+import {InProcessSessionLock} from "../../src";
+
+const SESSION_ID = "session-id";
+
+describe("InProcessSessionLock", () => {
+    it("shares the result of the running task with concurrent callers", async () => {
+        const lock = new InProcessSessionLock();
+        let runs = 0;
+        const task = async () => {
+            runs++;
+            await new Promise(resolve => setTimeout(resolve, 10));
+            return "session";
+        };
+
+        expect(await Promise.all([lock.runExclusive(SESSION_ID, task, 1000), lock.runExclusive(SESSION_ID, task, 1000)]))
+            .toEqual(["session", "session"]);
+        expect(runs).toBe(1);
+    });
+
+    it("keeps the lock after a timeout until the task settles", async () => {
+        const lock = new InProcessSessionLock();
+        let finish: (value: string) => void = () => undefined;
+        let runs = 0;
+        const task = () => {
+            runs++;
+            return new Promise<string>(resolve => finish = resolve);
+        };
+
+        await expect(lock.runExclusive(SESSION_ID, task, 10)).rejects.toThrow("timed out");
+        await expect(lock.runExclusive(SESSION_ID, task, 10)).rejects.toThrow("timed out");
+        expect(runs).toBe(1);
+
+        const waiting = lock.runExclusive(SESSION_ID, task, 1000);
+        finish("session");
+        expect(await waiting).toBe("session");
+
+        const next = lock.runExclusive(SESSION_ID, task, 1000);
+        expect(runs).toBe(2);
+        finish("refreshed session");
+        expect(await next).toBe("refreshed session");
+    });
+});
@@ -0,0 +1,73 @@
+import {buildThing, createSolidDataset, createThing, setThing} from "@inrupt/solid-client";
+import {describe, expect, it} from "vitest";
+import {shapeFromShacl, validateShape} from "../../src";
+
+const RESOURCE = "https://pod.example.org/alice/profile";
+const SHAPE_PREFIXES = `
+    @prefix sh: <http://www.w3.org/ns/shacl#>.
+    @prefix xsd: <http://www.w3.org/2001/XMLSchema#>.
+    @prefix schema: <https://schema.org/>.
+`;
+
+describe("shacl-shape", () => {
+    it("maps the supported constraints", () => {
+        const shape = shapeFromShacl(`${SHAPE_PREFIXES}
+            <#Person> a sh:NodeShape;
+                sh:targetClass schema:Person;
+                sh:property [ sh:path schema:name; sh:datatype xsd:string; sh:minCount 1; sh:maxCount 1 ],
+                    [ sh:path schema:knows; sh:class schema:Person ],
+                    [ sh:path schema:gender; sh:in ( schema:Female schema:Male ); sh:name "sex" ],
+                    [ sh:path schema:identifier ].
+        `);
+
+        expect(shape).toEqual({
+            targetClass: "https://schema.org/Person",
+            properties: {
+                name: { path: "https://schema.org/name", datatype: "string", minCount: 1, maxCount: 1 },
+                knows: { path: "https://schema.org/knows", class: "https://schema.org/Person" },
+                sex: { path: "https://schema.org/gender", in: ["https://schema.org/Female", "https://schema.org/Male"] },
+                identifier: { path: "https://schema.org/identifier" }
+            }
+        });
+    });
+
+    it.each([
+        "sh:pattern \"^A\"",
+        "sh:minInclusive 0",
+        "sh:node <#Address>",
+        "sh:nodeKind sh:Literal"
+    ])("rejects the unsupported constraint %s", constraint => {
+        expect(() => shapeFromShacl(`${SHAPE_PREFIXES}
+            <#Person> a sh:NodeShape; sh:property [ sh:path schema:name; ${constraint} ].
+        `)).toThrow(/Unsupported/);
+    });
+
+    it("rejects an unsupported constraint of the node shape", () => {
+        expect(() => shapeFromShacl(`${SHAPE_PREFIXES}
+            <#Person> a sh:NodeShape; sh:closed true; sh:property [ sh:path schema:name ].
+        `)).toThrow("Unsupported SHACL constraint [http://www.w3.org/ns/shacl#closed]");
+    });
+
+    it("leaves the type of a property without datatype unconstrained and validates the class of the values", () => {
+        const shape = shapeFromShacl(`${SHAPE_PREFIXES}
+            <#Person> a sh:NodeShape; sh:property [ sh:path schema:identifier; sh:maxCount 1 ], [ sh:path schema:knows; sh:class schema:Person ].
+        `);
+        const person = buildThing(createThing({ url: `${RESOURCE}#me` }))
+            .addInteger("https://schema.org/identifier", 42)
+            .addUrl("https://schema.org/knows", `${RESOURCE}#bob`)
+            .addUrl("https://schema.org/knows", `${RESOURCE}#robot`)
+            .build();
+        const bob = buildThing(createThing({ url: `${RESOURCE}#bob` }))
+            .addUrl("http://www.w3.org/1999/02/22-rdf-syntax-ns#type", "https://schema.org/Person")
+            .build();
+        const dataset = setThing(setThing(createSolidDataset(), person), bob);
+
+        const {violations} = validateShape(dataset, shape, `${RESOURCE}#me`);
+
+        expect(violations).toEqual([{
+            focusNode: `${RESOURCE}#me`,
+            path: "https://schema.org/knows",
+            message: `Value [${RESOURCE}#robot] is not an instance of [https://schema.org/Person].`
+        }]);
+    });
+});
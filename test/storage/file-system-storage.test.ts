@@ -0,0 +1,59 @@
+import {randomBytes} from "node:crypto";
+import {mkdtemp, readdir, readFile, rm, writeFile} from "node:fs/promises";
+import {tmpdir} from "node:os";
+import path from "node:path";
+import {afterEach, beforeEach, describe, expect, it, vi} from "vitest";
+import {FileSystemStorage} from "../../src";
+
+describe("FileSystemStorage", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), "solid-storage-"));
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it("stores, reads and deletes an entry", async () => {
+        const storage = new FileSystemStorage(path.join(directory, "sessions"));
+
+        await storage.set("solidClientAuthenticationUser:1", "data");
+        expect(await storage.get("solidClientAuthenticationUser:1")).toBe("data");
+        expect(await new FileSystemStorage(path.join(directory, "sessions")).get("solidClientAuthenticationUser:1")).toBe("data");
+
+        await storage.delete("solidClientAuthenticationUser:1");
+        expect(await storage.get("solidClientAuthenticationUser:1")).toBeUndefined();
+    });
+
+    it("encrypts the stored values and rejects a tampered file", async () => {
+        const storage = new FileSystemStorage(directory, { encryptionKey: randomBytes(32) });
+        await storage.set("key", "refresh-token");
+        const [fileName] = await readdir(directory);
+        const filePath = path.join(directory, fileName);
+        const entry = JSON.parse(await readFile(filePath, "utf-8"));
+
+        expect(entry.value).not.toContain("refresh-token");
+        expect(await storage.get("key")).toBe("refresh-token");
+
+        await writeFile(filePath, JSON.stringify({ ...entry, value: entry.value.slice(0, -4) + "AAAA" }));
+        await expect(storage.get("key")).rejects.toThrow();
+    });
+
+    it("expires entries and removes them on cleanup, skipping corrupt files", async () => {
+        vi.useFakeTimers({ now: 0, toFake: ["Date"] });
+        const storage = new FileSystemStorage(directory, { ttlSeconds: 60 });
+        await storage.set("expired", "data");
+        vi.setSystemTime(30_000);
+        await storage.set("valid", "data");
+        await writeFile(path.join(directory, "corrupt.json"), "{");
+
+        vi.setSystemTime(60_000);
+        expect(await storage.get("expired")).toBeUndefined();
+        expect(await storage.get("valid")).toBe("data");
+        expect(await storage.cleanup()).toBe(1);
+        expect(await readdir(directory)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,83 @@
+import {randomBytes} from "node:crypto";
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {KeyValueClient, KeyValueStorage} from "../../src";
+
+/**
+ * A key/value client on a map, which doesn't expire entries itself.
+ */
+class MapClient implements KeyValueClient {
+    readonly entries = new Map<string, string>();
+
+    async get(key: string) {
+        return this.entries.get(key);
+    }
+
+    async set(key: string, value: string) {
+        this.entries.set(key, value);
+    }
+
+    async delete(key: string) {
+        this.entries.delete(key);
+    }
+
+    async keys(prefix: string) {
+        return [...this.entries.keys()].filter(key => key.startsWith(prefix));
+    }
+}
+
+describe("KeyValueStorage", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("stores, reads and deletes an entry under the prefix", async () => {
+        const client = new MapClient();
+        const storage = new KeyValueStorage(client, { prefix: "app:" });
+
+        await storage.set("key", "data");
+        expect([...client.entries.keys()]).toEqual(["app:key"]);
+        expect(await storage.get("key")).toBe("data");
+
+        await storage.delete("key");
+        expect(await storage.get("key")).toBeUndefined();
+    });
+
+    it("passes the TTL to the client", async () => {
+        const client = new MapClient();
+        const set = vi.spyOn(client, "set");
+
+        await new KeyValueStorage(client, { ttlSeconds: 60 }).set("key", "data");
+
+        expect(set).toHaveBeenCalledWith("solid:key", expect.any(String), 60);
+    });
+
+    it("encrypts the stored values and rejects a tampered value", async () => {
+        const client = new MapClient();
+        const storage = new KeyValueStorage(client, { encryptionKey: randomBytes(32) });
+        await storage.set("key", "refresh-token");
+        const entry = JSON.parse(client.entries.get("solid:key")!);
+
+        expect(entry.value).not.toContain("refresh-token");
+        expect(await storage.get("key")).toBe("refresh-token");
+
+        client.entries.set("solid:key", JSON.stringify({ ...entry, value: entry.value.slice(0, -4) + "AAAA" }));
+        await expect(storage.get("key")).rejects.toThrow();
+    });
+
+    it("expires entries and removes them on cleanup, skipping corrupt entries", async () => {
+        vi.useFakeTimers({ now: 0, toFake: ["Date"] });
+        const client = new MapClient();
+        const storage = new KeyValueStorage(client, { ttlSeconds: 60 });
+        await storage.set("expired", "data");
+        vi.setSystemTime(30_000);
+        await storage.set("valid", "data");
+        client.entries.set("solid:corrupt", "{");
+        client.entries.set("solid:null", "null");
+
+        vi.setSystemTime(60_000);
+        expect(await storage.get("expired")).toBeUndefined();
+        expect(await storage.get("valid")).toBe("data");
+        expect(await storage.cleanup()).toBe(1);
+        expect([...client.entries.keys()]).toEqual(["solid:valid", "solid:corrupt", "solid:null"]);
+    });
+});
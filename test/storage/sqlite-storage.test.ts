@@ -0,0 +1,56 @@
+import {randomBytes} from "node:crypto";
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {SqliteDatabase, SqliteStorage} from "../../src";
+
+// `node:sqlite` is only available from Node 22.5.
+const sqlite = await import("node:sqlite" as string).catch(() => undefined);
+
+describe.skipIf(!sqlite)("SqliteStorage", () => {
+    const createDatabase = (): SqliteDatabase => new sqlite.DatabaseSync(":memory:");
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("stores, overwrites, reads and deletes an entry", async () => {
+        const storage = new SqliteStorage(createDatabase(), { table: "sessions" });
+
+        await storage.set("key", "data");
+        await storage.set("key", "other data");
+        expect(await storage.get("key")).toBe("other data");
+
+        await storage.delete("key");
+        expect(await storage.get("key")).toBeUndefined();
+    });
+
+    it("rejects an invalid table name", () => {
+        expect(() => new SqliteStorage(createDatabase(), { table: "sessions; DROP TABLE users" })).toThrow("Invalid table name");
+    });
+
+    it("encrypts the stored values and rejects a tampered value", async () => {
+        const database = createDatabase();
+        const storage = new SqliteStorage(database, { encryptionKey: randomBytes(32) });
+        await storage.set("key", "refresh-token");
+        const {value} = database.prepare("SELECT value FROM solid_session_storage WHERE key = ?").get("key") as { value: string };
+
+        expect(value).not.toContain("refresh-token");
+        expect(await storage.get("key")).toBe("refresh-token");
+
+        database.prepare("UPDATE solid_session_storage SET value = ? WHERE key = ?").run(value.slice(0, -4) + "AAAA", "key");
+        await expect(storage.get("key")).rejects.toThrow();
+    });
+
+    it("expires entries and removes them on cleanup", async () => {
+        vi.useFakeTimers({ now: 0, toFake: ["Date"] });
+        const storage = new SqliteStorage(createDatabase(), { ttlSeconds: 60 });
+        await storage.set("expired", "data");
+        vi.setSystemTime(30_000);
+        await storage.set("valid", "data");
+
+        vi.setSystemTime(60_000);
+        expect(await storage.get("expired")).toBeUndefined();
+        expect(await storage.get("valid")).toBe("data");
+        expect(await storage.cleanup()).toBe(1);
+        expect(await storage.cleanup()).toBe(0);
+    });
+});
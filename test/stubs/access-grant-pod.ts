@@ -0,0 +1,96 @@
+import {vi} from "vitest";
+
+const UMA_SERVER = "https://uma.example.org/";
+const UMA_TOKEN = "uma-access-token";
+
+/**
+ * A pod addressed directly with an access grant, as done by `getAccessGrantFetch`, stubbing the global fetch.
+ * Unauthorised requests are challenged with UMA, and the access grant is exchanged for a token at the stub UMA server.
+ * The pod keeps its resources in memory with an ETag per version, honours the `If-Match` and `If-None-Match` preconditions
+ * and single byte ranges, and records the requests made with the token. Patches are recorded and create a new version, but aren't applied.
+ */
+export class StubAccessGrantPod {
+    readonly requests: Request[] = [];
+    readonly hangingMethods = new Set<string>(); // Requests with these methods are never answered, unless they're aborted.
+    private readonly resources = new Map<string, { body: string, contentType: string, etag: string }>();
+    private version = 0;
+
+    /**
+     * The authenticated fetch of the requestor, to add to the test session.
+     */
+    readonly sessionFetch: typeof fetch = (input, init) => globalThis.fetch(input, init);
+
+    /**
+     * Replaces the global fetch by the pod, until `vi.unstubAllGlobals()` is called.
+     */
+    install(): this {
+        vi.stubGlobal("fetch", (input: RequestInfo | URL, init?: RequestInit) => this.handle(new Request(input, init)));
+        return this;
+    }
+
+    setResource(url: string, body: string, contentType = "text/turtle"): string {
+        const etag = `"${++this.version}"`;
+        this.resources.set(url, { body, contentType, etag });
+        return etag;
+    }
+
+    getResource(url: string) {
+        return this.resources.get(url);
+    }
+
+    private async handle(request: Request): Promise<Response> {
+        if (request.url === new URL(".well-known/uma2-configuration", UMA_SERVER).href) {
+            return Response.json({ token_endpoint: `${UMA_SERVER}token` });
+        }
+        if (request.url === `${UMA_SERVER}token`) {
+            return Response.json({ access_token: UMA_TOKEN });
+        }
+        if (request.headers.get("Authorization") !== `Bearer ${UMA_TOKEN}`) {
+            return new Response(null, { status: 401, headers: { "WWW-Authenticate": `UMA as_uri="${UMA_SERVER}", ticket="ticket"` } });
+        }
+
+        this.requests.push(request.clone());
+        if (this.hangingMethods.has(request.method)) {
+            return new Promise((resolve, reject) => request.signal.addEventListener("abort", () => reject(request.signal.reason)));
+        }
+        const resource = this.resources.get(request.url);
+        const ifMatch = request.headers.get("If-Match");
+        const ifNoneMatch = request.headers.get("If-None-Match");
+
+        if (request.method === "GET" || request.method === "HEAD") {
+            if (!resource) {
+                return new Response(null, { status: 404 });
+            }
+            if (ifNoneMatch && ifNoneMatch === resource.etag) {
+                return new Response(null, { status: 304, headers: { ETag: resource.etag } });
+            }
+            const headers = { "Content-Type": resource.contentType, "Accept-Ranges": "bytes", ETag: resource.etag };
+            const range = request.headers.get("Range")?.match(/^bytes=(\d+)-(\d*)$/);
+            if (range) {
+                const start = Number(range[1]);
+                const end = Math.min(range[2] ? Number(range[2]) : Infinity, resource.body.length - 1);
+                if (start > end) {
+                    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${resource.body.length}` } });
+                }
+                const part = resource.body.slice(start, end + 1);
+                return new Response(request.method === "HEAD" ? null : part, { status: 206, headers: {
+                    ...headers, "Content-Length": `${part.length}`, "Content-Range": `bytes ${start}-${end}/${resource.body.length}`
+                } });
+            }
+            return new Response(request.method === "HEAD" ? null : resource.body, { headers: { ...headers, "Content-Length": `${resource.body.length}` } });
+        }
+
+        if ((ifMatch && (!resource || ifMatch !== resource.etag)) || (ifNoneMatch === "*" && resource)) {
+            return new Response(null, { status: 412 });
+        }
+        if (request.method === "DELETE") {
+            this.resources.delete(request.url);
+            return new Response(null, { status: resource ? 205 : 404 });
+        }
+
+        const etag = request.method === "PATCH" && resource
+            ? this.setResource(request.url, resource.body, resource.contentType)
+            : this.setResource(request.url, await request.text(), request.headers.get("Content-Type") ?? "application/octet-stream");
+        return new Response(null, { status: resource ? 205 : 201, headers: { ETag: etag } });
+    }
+}
@@ -0,0 +1,76 @@
+import express from "express";
+import {AddressInfo} from "node:net";
+import {Server} from "node:http";
+import {exportJWK, generateKeyPair, SignJWT} from "jose";
+
+/**
+ * A local Solid identity provider that authorises every request, serving the OIDC configuration, its keys, a token endpoint
+ * and the WebID profile of a single user with a storage.
+ */
+export interface StubIdentityProvider {
+    issuer: string;
+    webId: string;
+    pod: string;
+    close(): Promise<void>;
+}
+
+export async function startStubIdentityProvider(): Promise<StubIdentityProvider> {
+    const {publicKey, privateKey} = await generateKeyPair("RS256");
+    const publicJwk = { ...(await exportJWK(publicKey)), alg: "RS256", kid: "stub", use: "sig" };
+
+    const app = express();
+    const server: Server = await new Promise(resolve => {
+        const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const webId = `${issuer}/alice/profile/card#me`;
+    const pod = `${issuer}/alice/`;
+
+    app.get("/.well-known/openid-configuration", (req, res) => {
+        res.json({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+            scopes_supported: ["openid", "offline_access", "webid"],
+            response_types_supported: ["code"],
+            grant_types_supported: ["authorization_code", "refresh_token"],
+            token_endpoint_auth_methods_supported: ["none"],
+            id_token_signing_alg_values_supported: ["RS256"],
+            dpop_signing_alg_values_supported: ["ES256"],
+            claims_supported: ["sub", "webid"],
+            subject_types_supported: ["public"]
+        });
+    });
+    app.get("/jwks", (req, res) => {
+        res.json({ keys: [publicJwk] });
+    });
+    app.post("/token", express.urlencoded({ extended: false }), async (req, res) => {
+        // The client credentials are form-encoded before they are base64-encoded in the Basic authorization header.
+        const clientId: string = req.body.client_id;
+        const sign = (claims: Record<string, unknown>) => new SignJWT({ webid: webId, ...claims })
+            .setProtectedHeader({ alg: "RS256", kid: "stub" })
+            .setIssuer(issuer)
+            .setSubject(webId)
+            .setAudience(clientId)
+            .setIssuedAt()
+            .setExpirationTime("1h")
+            .sign(privateKey);
+        res.json({
+            access_token: await sign({ client_id: clientId }),
+            id_token: await sign({ azp: clientId }),
+            token_type: "DPoP",
+            expires_in: 3600
+        });
+    });
+    app.get("/alice/profile/card", (req, res) => {
+        res.type("text/turtle").send(`<#me> <http://www.w3.org/ns/pim/space#storage> <${pod}>.`);
+    });
+
+    return {
+        issuer,
+        webId,
+        pod,
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
@@ -0,0 +1,90 @@
+import {NotificationChannel} from "../../src";
+
+const NOTIFY = "http://www.w3.org/ns/solid/notifications#";
+
+/**
+ * A WebSocket of a notification channel, opened by the relay through the `webSocketFactory` of the `StubNotificationPod`.
+ */
+export class StubWebSocket {
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onerror: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+    closed = false;
+
+    constructor(readonly url: string) {
+    }
+
+    /**
+     * Sends a notification to the relay, as the pod does when the topic changes.
+     */
+    send(notification: string) {
+        this.onmessage?.({ data: notification });
+    }
+
+    /**
+     * Closes the WebSocket from the side of the pod.
+     */
+    drop() {
+        this.closed = true;
+        this.onclose?.();
+    }
+
+    close() {
+        this.closed = true;
+    }
+}
+
+/**
+ * A pod advertising a subscription service for the `WebSocketChannel2023` and `WebhookChannel2023` in its storage description,
+ * to be requested with its `fetch` as the authenticated fetch of a test session. It keeps the open notification channels and
+ * the WebSockets opened to them in memory, and fails every subscription while `failSubscriptions` is set.
+ */
+export class StubNotificationPod {
+    readonly channels = new Map<string, NotificationChannel>();
+    readonly sockets: StubWebSocket[] = [];
+    failSubscriptions = false;
+    private channelCount = 0;
+
+    constructor(readonly podUrl: string) {
+    }
+
+    readonly fetch: typeof fetch = async (input, init) => this.handle(new Request(input, init));
+
+    readonly webSocketFactory = (url: string): WebSocket => {
+        const socket = new StubWebSocket(url);
+        this.sockets.push(socket);
+        return socket as unknown as WebSocket;
+    };
+
+    private async handle(request: Request): Promise<Response> {
+        const storageDescription = `${this.podUrl}.well-known/solid`;
+        const subscriptionService = `${this.podUrl}.notifications/`;
+
+        if (request.method === "HEAD" && request.url.startsWith(this.podUrl)) {
+            return new Response(null, { headers: { Link: `<${storageDescription}>; rel="http://www.w3.org/ns/solid/terms#storageDescription"` } });
+        }
+        if (request.method === "GET" && request.url === storageDescription) {
+            return new Response([
+                `@prefix notify: <${NOTIFY}>.`,
+                `<${subscriptionService}websocket> notify:channelType notify:WebSocketChannel2023.`,
+                `<${subscriptionService}webhook> notify:channelType notify:WebhookChannel2023.`
+            ].join("\n"), { headers: { "Content-Type": "text/turtle" } });
+        }
+        if (request.method === "POST" && request.url.startsWith(subscriptionService)) {
+            if (this.failSubscriptions) {
+                return new Response(null, { status: 403 });
+            }
+            const {type, topic, sendTo} = await request.json() as { type: string, topic: string, sendTo?: string };
+            const id = `${subscriptionService}channels/${++this.channelCount}`;
+            const channel: NotificationChannel = type === `${NOTIFY}WebhookChannel2023`
+                ? { id, type, topic, sendTo }
+                : { id, type, topic, receiveFrom: `wss://${new URL(this.podUrl).host}/channels/${this.channelCount}` };
+            this.channels.set(id, channel);
+            return Response.json(channel);
+        }
+        if (request.method === "DELETE" && this.channels.delete(request.url)) {
+            return new Response(null, { status: 205 });
+        }
+        return new Response(null, { status: 404 });
+    }
+}